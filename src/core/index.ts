@@ -4,3 +4,4 @@
 
 export * from './services/index.js';
 export * from './storage/index.js';
+export * from './simulator/index.js';
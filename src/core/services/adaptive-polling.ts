@@ -0,0 +1,180 @@
+import { Config, PerformanceMonitor } from '../../infrastructure/index.js';
+import type { QueryTaskResponse } from './tongyi-service.js';
+
+/**
+ * 自适应轮询配置
+ */
+export interface AdaptivePollingOptions {
+  /** 首次轮询间隔(ms) */
+  initialInterval: number;
+  /** 轮询间隔上限(ms) */
+  maxInterval: number;
+  /** 每次轮询后间隔的增长倍数 */
+  backoffFactor: number;
+  /** 间隔随机浮动比例，避免大量任务同时查询 */
+  jitter: number;
+}
+
+/**
+ * 本进程创建的任务：记录模型和本地创建时间，用于预估剩余时间
+ */
+interface TrackedTask {
+  model: string;
+  createdAt: number;
+}
+
+/**
+ * 参与预估的历史样本数
+ */
+const HISTORY_SIZE = 20;
+
+/**
+ * 超过该时长仍未结束的任务不再跟踪
+ */
+const TRACKING_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 解析 DashScope 返回的时间（如 "2024-01-01 12:00:00.123"，不带时区）
+ * 只用于计算同一任务内各时间点的差值，因此统一按 UTC 解析即可
+ */
+function parseTaskTime(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const timestamp = Date.parse(`${value.trim().replace(' ', 'T')}Z`);
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * 自适应轮询
+ * 间隔从 initialInterval 开始按倍数退避并加入随机抖动；任务成功时按模型记录排队和执行耗时，
+ * 之后同模型的任务按历史耗时的中位数和任务的 submit_time/scheduled_time 预估剩余时间，
+ * 在预计完成时再查询，减少无效轮询
+ */
+export class AdaptivePolling {
+  private readonly tasks: Map<string, TrackedTask> = new Map();
+
+  constructor(
+    private readonly options: AdaptivePollingOptions = {
+      initialInterval: Config.POLL_INTERVAL,
+      maxInterval: Config.POLL_MAX_INTERVAL,
+      backoffFactor: Config.POLL_BACKOFF_FACTOR,
+      jitter: Config.POLL_JITTER
+    }
+  ) {}
+
+  /**
+   * 记录任务的模型和创建时间
+   */
+  trackTask(taskId: string, model: string, createdAt: number = Date.now()): void {
+    for (const [id, task] of this.tasks) {
+      if (createdAt - task.createdAt > TRACKING_TTL_MS) {
+        this.tasks.delete(id);
+      }
+    }
+    this.tasks.set(taskId, { model, createdAt });
+  }
+
+  /**
+   * 任务结束：成功时按模型记录排队和执行耗时，并停止跟踪
+   */
+  recordCompletion(taskId: string, result: QueryTaskResponse): void {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      return;
+    }
+    this.tasks.delete(taskId);
+
+    const { task_status, submit_time, scheduled_time, end_time } = result.output;
+    const submitted = parseTaskTime(submit_time);
+    const scheduled = parseTaskTime(scheduled_time);
+    const ended = parseTaskTime(end_time);
+    if (task_status !== 'SUCCEEDED' || submitted === undefined || scheduled === undefined || ended === undefined) {
+      return;
+    }
+
+    const timestamp = Date.now();
+    if (scheduled >= submitted) {
+      PerformanceMonitor.recordMetric({
+        operationName: this.getQueueMetric(task.model),
+        duration: scheduled - submitted,
+        timestamp,
+        success: true
+      });
+    }
+    if (ended >= scheduled) {
+      PerformanceMonitor.recordMetric({
+        operationName: this.getRunMetric(task.model),
+        duration: ended - scheduled,
+        timestamp,
+        success: true
+      });
+    }
+  }
+
+  /**
+   * 计算下一次轮询前的等待时间
+   * @param attempt 当前状态下已轮询的次数（状态变化时从 0 重新计数）
+   * @param initialInterval 覆盖默认的初始间隔
+   */
+  getNextDelay(taskId: string, result: QueryTaskResponse, attempt: number, initialInterval?: number): number {
+    const initial = initialInterval ?? this.options.initialInterval;
+    const maxInterval = Math.max(this.options.maxInterval, initial);
+    const backoff = Math.min(initial * Math.pow(this.options.backoffFactor, attempt), maxInterval);
+
+    const remaining = this.estimateRemaining(taskId, result);
+    const delay = remaining !== undefined && remaining > backoff
+      ? Math.min(remaining, maxInterval)
+      : backoff;
+
+    const jitter = 1 + this.options.jitter * (Math.random() * 2 - 1);
+    return Math.max(Math.round(delay * jitter), 0);
+  }
+
+  /**
+   * 按同模型历史耗时预估剩余时间(ms)；没有历史或不是本进程创建的任务时返回 undefined
+   */
+  estimateRemaining(taskId: string, result: QueryTaskResponse): number | undefined {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      return undefined;
+    }
+
+    const expectedQueue = median(PerformanceMonitor.getRecentDurations(this.getQueueMetric(task.model), HISTORY_SIZE));
+    const expectedRun = median(PerformanceMonitor.getRecentDurations(this.getRunMetric(task.model), HISTORY_SIZE));
+    if (expectedRun === undefined) {
+      return undefined;
+    }
+
+    const elapsed = Date.now() - task.createdAt;
+    const { task_status, submit_time, scheduled_time } = result.output;
+
+    if (task_status === 'RUNNING') {
+      // 服务端时间与本地时间可能有偏差，只使用两者的差值：执行已持续 = 本地已等待 - 服务端排队耗时
+      const submitted = parseTaskTime(submit_time);
+      const scheduled = parseTaskTime(scheduled_time);
+      if (submitted !== undefined && scheduled !== undefined && scheduled >= submitted) {
+        return expectedRun - (elapsed - (scheduled - submitted));
+      }
+    }
+
+    return (expectedQueue ?? 0) + expectedRun - elapsed;
+  }
+
+  private getQueueMetric(model: string): string {
+    return `任务排队-${model}`;
+  }
+
+  private getRunMetric(model: string): string {
+    return `任务执行-${model}`;
+  }
+}
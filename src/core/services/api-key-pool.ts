@@ -0,0 +1,255 @@
+import { Config, Logger, TongyiError } from '../../infrastructure/index.js';
+
+/**
+ * API Key 健康状态
+ * - active: 可用
+ * - throttled: 被限流，冷却后自动恢复
+ * - exhausted: 额度用尽或欠费，较长冷却后自动恢复
+ * - invalid: 密钥无效，不再主动使用
+ */
+export type ApiKeyState = 'active' | 'throttled' | 'exhausted' | 'invalid';
+
+/**
+ * 密钥池中的单个 API Key
+ */
+export interface ApiKeyEntry {
+  /** 脱敏后的标识，用于日志和状态输出 */
+  readonly id: string;
+  readonly value: string;
+  state: ApiKeyState;
+  /** 冷却结束时间，0 表示立即可用 */
+  availableAt: number;
+  requests: number;
+  successes: number;
+  failures: number;
+  tasksCreated: number;
+  lastUsedAt?: number;
+  lastError?: { code: string; message: string; at: number };
+}
+
+/**
+ * 密钥池配置
+ */
+export interface ApiKeyPoolOptions {
+  /** 限流后的冷却时间(ms) */
+  throttleCooldownMs: number;
+  /** 额度用尽/欠费后的冷却时间(ms) */
+  exhaustedCooldownMs: number;
+}
+
+/**
+ * 触发切换 Key 的错误码及对应状态
+ */
+const FAILOVER_STATES: Record<string, ApiKeyState> = {
+  RATE_LIMIT: 'throttled',
+  QUOTA_EXHAUSTED: 'exhausted',
+  ARREARAGE: 'exhausted',
+  AUTH_ERROR: 'invalid'
+};
+
+/**
+ * 任务与 Key 对应关系的保留时间，与任务结果的有效期（24小时）一致，过期后任务已无法查询
+ */
+const TASK_BINDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * API Key 脱敏：只保留前缀和末4位
+ */
+function maskApiKey(key: string): string {
+  if (!key) {
+    return '(未配置)';
+  }
+  if (key.length <= 8) {
+    return `${key.slice(0, 2)}****`;
+  }
+  return `${key.slice(0, 3)}****${key.slice(-4)}`;
+}
+
+/**
+ * 多 API Key 密钥池
+ * 轮流使用各工作空间的 Key，遇到限流、额度用尽、欠费时将 Key 标记为不可用并切换到下一个 Key；
+ * 记录任务由哪个 Key 创建，任务查询和取消必须使用同一个 Key
+ */
+export class ApiKeyPool {
+  private readonly entries: ApiKeyEntry[];
+  private readonly taskKeys: Map<string, { entry: ApiKeyEntry; boundAt: number }> = new Map();
+  private nextIndex = 0;
+
+  constructor(
+    keys: string[],
+    private readonly options: ApiKeyPoolOptions = {
+      throttleCooldownMs: Config.API_KEY_THROTTLE_COOLDOWN,
+      exhaustedCooldownMs: Config.API_KEY_EXHAUSTED_COOLDOWN
+    }
+  ) {
+    // 测试模式下没有密钥，仍保留一个空 Key 以便访问模拟器
+    const uniqueKeys = Array.from(new Set(keys.length > 0 ? keys : ['']));
+    this.entries = uniqueKeys.map((value, index) => ({
+      id: `#${index + 1} ${maskApiKey(value)}`,
+      value,
+      state: 'active',
+      availableAt: 0,
+      requests: 0,
+      successes: 0,
+      failures: 0,
+      tasksCreated: 0
+    }));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  get hasApiKey(): boolean {
+    return this.entries.some(entry => !!entry.value);
+  }
+
+  /**
+   * 选择一个 Key
+   * rotate 为 true 时从上次位置开始轮询，否则总是优先使用靠前的 Key；
+   * 没有可用 Key 时退而使用最早结束冷却的 Key，全部尝试过则返回 undefined
+   */
+  acquire(exclude: Set<string> = new Set(), rotate: boolean = true): ApiKeyEntry | undefined {
+    const now = Date.now();
+    const start = rotate ? this.nextIndex : 0;
+    const candidates = this.entries
+      .map((_, offset) => this.entries[(start + offset) % this.entries.length])
+      .filter(entry => !exclude.has(entry.id));
+
+    for (const entry of candidates) {
+      this.refreshState(entry, now);
+    }
+
+    const entry = candidates.find(candidate => candidate.state === 'active') ||
+      candidates
+        .filter(candidate => candidate.state !== 'invalid')
+        .sort((a, b) => a.availableAt - b.availableAt)[0] ||
+      candidates[0];
+
+    if (entry && rotate) {
+      this.nextIndex = (this.entries.indexOf(entry) + 1) % this.entries.length;
+    }
+    return entry;
+  }
+
+  /**
+   * 获取创建该任务的 Key
+   */
+  getKeyForTask(taskId: string): ApiKeyEntry | undefined {
+    return this.taskKeys.get(taskId)?.entry;
+  }
+
+  /**
+   * 记录任务与 Key 的对应关系，同时清理超过任务结果有效期的记录
+   */
+  bindTask(taskId: string, entry: ApiKeyEntry): void {
+    const now = Date.now();
+    for (const [id, binding] of this.taskKeys) {
+      if (now - binding.boundAt > TASK_BINDING_TTL_MS) {
+        this.taskKeys.delete(id);
+      }
+    }
+    this.taskKeys.set(taskId, { entry, boundAt: now });
+  }
+
+  /**
+   * 返回其余未失效的 Key，用于查找未记录归属的任务
+   */
+  getOtherKeys(exclude: ApiKeyEntry): ApiKeyEntry[] {
+    return this.entries.filter(entry => entry !== exclude && entry.state !== 'invalid');
+  }
+
+  /**
+   * 记录请求开始
+   */
+  recordRequest(entry: ApiKeyEntry): void {
+    entry.requests++;
+    entry.lastUsedAt = Date.now();
+  }
+
+  /**
+   * 记录请求成功；createdTask 为 true 时计入该 Key 创建的任务数
+   */
+  recordSuccess(entry: ApiKeyEntry, createdTask: boolean = false): void {
+    entry.successes++;
+    if (createdTask) {
+      entry.tasksCreated++;
+    }
+    if (entry.state !== 'active') {
+      Logger.info(`API Key ${entry.id} 已恢复可用`);
+      entry.state = 'active';
+      entry.availableAt = 0;
+    }
+  }
+
+  /**
+   * 记录请求失败，返回是否应切换到下一个 Key 重试
+   */
+  recordFailure(entry: ApiKeyEntry, error: unknown): boolean {
+    entry.failures++;
+
+    if (!(error instanceof TongyiError)) {
+      return false;
+    }
+
+    entry.lastError = { code: error.code, message: error.message, at: Date.now() };
+
+    const state = FAILOVER_STATES[error.code];
+    if (!state) {
+      return false;
+    }
+
+    entry.state = state;
+    entry.availableAt = state === 'invalid'
+      ? Number.POSITIVE_INFINITY
+      : Date.now() + (state === 'throttled' ? this.options.throttleCooldownMs : this.options.exhaustedCooldownMs);
+
+    Logger.warn(`API Key ${entry.id} 标记为 ${state}: ${error.message}`);
+    return this.entries.length > 1;
+  }
+
+  /**
+   * 获取各 Key 的用量和健康状态
+   */
+  getStatus(): Array<{
+    id: string;
+    state: ApiKeyState;
+    availableAt?: string;
+    requests: number;
+    successes: number;
+    failures: number;
+    tasksCreated: number;
+    lastUsedAt?: string;
+    lastError?: { code: string; message: string; at: string };
+  }> {
+    const now = Date.now();
+    return this.entries.map(entry => {
+      this.refreshState(entry, now);
+      return {
+        id: entry.id,
+        state: entry.state,
+        ...(entry.availableAt > now && Number.isFinite(entry.availableAt) && {
+          availableAt: new Date(entry.availableAt).toISOString()
+        }),
+        requests: entry.requests,
+        successes: entry.successes,
+        failures: entry.failures,
+        tasksCreated: entry.tasksCreated,
+        ...(entry.lastUsedAt && { lastUsedAt: new Date(entry.lastUsedAt).toISOString() }),
+        ...(entry.lastError && {
+          lastError: { ...entry.lastError, at: new Date(entry.lastError.at).toISOString() }
+        })
+      };
+    });
+  }
+
+  /**
+   * 冷却结束的 Key 恢复为可用
+   */
+  private refreshState(entry: ApiKeyEntry, now: number): void {
+    if ((entry.state === 'throttled' || entry.state === 'exhausted') && now >= entry.availableAt) {
+      entry.state = 'active';
+      entry.availableAt = 0;
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { CircuitBreaker, CircuitBreakerState, TongyiError } from '../../infrastructure/index.js';
+import { DashScopeTransport } from './dashscope-transport.js';
+import { ApiKeyPool } from './api-key-pool.js';
+
+/**
+ * 任务查询、取消和列表接口的路径前缀
+ */
+export const TASKS_API = '/api/v1/tasks';
+
+/**
+ * 任务与区域对应关系的保留时间，与任务结果的有效期（24小时）一致，过期后任务已无法查询
+ */
+const TASK_BINDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * DashScope 区域端点：每个区域有独立的传输层、密钥池，以及各接口的熔断器
+ */
+export interface DashScopeEndpoint {
+  readonly name: string;
+  readonly transport: DashScopeTransport;
+  readonly keyPool: ApiKeyPool;
+  /** 各接口的熔断器（按接口路径），熔断器开启时该接口的新请求切换到后续区域 */
+  readonly circuitBreakers: Map<string, CircuitBreaker>;
+}
+
+/**
+ * 熔断器状态
+ */
+export interface CircuitBreakerStatus {
+  name: string;
+  region: string;
+  api: string;
+  state: CircuitBreakerState;
+  failureCount: number;
+  nextAttemptTime: number;
+}
+
+/**
+ * 区域端点路由
+ * 按配置顺序选择健康的区域发送请求，并记录任务由哪个区域创建，任务查询和取消必须发往同一个区域
+ */
+export class EndpointRouter {
+  private readonly taskEndpoints: Map<string, { endpoint: DashScopeEndpoint; boundAt: number }> = new Map();
+
+  constructor(
+    private readonly endpoints: DashScopeEndpoint[],
+    private readonly createCircuitBreaker: (name: string) => CircuitBreaker
+  ) {
+    if (endpoints.length === 0) {
+      throw new Error('至少需要一个 DashScope 区域端点');
+    }
+  }
+
+  /**
+   * 主区域（配置中的第一个）
+   */
+  get primary(): DashScopeEndpoint {
+    return this.endpoints[0];
+  }
+
+  getEndpoints(): DashScopeEndpoint[] {
+    return this.endpoints;
+  }
+
+  getEndpoint(name: string): DashScopeEndpoint | undefined {
+    return this.endpoints.find(endpoint => endpoint.name === name);
+  }
+
+  /**
+   * 获取区域中某个接口的熔断器；任务相关的路径共用同一个熔断器
+   */
+  getCircuitBreaker(endpoint: DashScopeEndpoint, path: string): CircuitBreaker {
+    const api = path.startsWith(TASKS_API) ? TASKS_API : path;
+    let breaker = endpoint.circuitBreakers.get(api);
+    if (!breaker) {
+      breaker = this.createCircuitBreaker(`${endpoint.name}${api.replace(/^\/api\/v1(\/services\/aigc)?/, '')}`);
+      endpoint.circuitBreakers.set(api, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * 按优先级排列的候选区域：该接口熔断器未开启的区域，全部开启时仍按原顺序返回
+   */
+  getCandidates(path: string): DashScopeEndpoint[] {
+    const healthy = this.endpoints.filter(endpoint => this.getCircuitBreaker(endpoint, path).isAvailable());
+    return healthy.length > 0 ? healthy : this.endpoints;
+  }
+
+  /**
+   * 区域是否健康（所有接口的熔断器都允许请求）
+   */
+  isHealthy(endpoint: DashScopeEndpoint): boolean {
+    return Array.from(endpoint.circuitBreakers.values()).every(breaker => breaker.isAvailable());
+  }
+
+  /**
+   * 获取创建该任务的区域
+   */
+  getEndpointForTask(taskId: string): DashScopeEndpoint | undefined {
+    return this.taskEndpoints.get(taskId)?.endpoint;
+  }
+
+  /**
+   * 记录任务与区域的对应关系，同时清理超过任务结果有效期的记录
+   * @param boundAt 任务创建时间，从任务日志恢复时传入记录的创建时间
+   */
+  bindTask(taskId: string, endpoint: DashScopeEndpoint, boundAt: number = Date.now()): void {
+    const now = Date.now();
+    for (const [id, binding] of this.taskEndpoints) {
+      if (now - binding.boundAt > TASK_BINDING_TTL_MS) {
+        this.taskEndpoints.delete(id);
+      }
+    }
+    if (now - boundAt <= TASK_BINDING_TTL_MS) {
+      this.taskEndpoints.set(taskId, { endpoint, boundAt });
+    }
+  }
+
+  /**
+   * 获取所有熔断器状态
+   */
+  getCircuitBreakerStatus(): CircuitBreakerStatus[] {
+    return this.endpoints.flatMap(endpoint =>
+      Array.from(endpoint.circuitBreakers.entries()).map(([api, breaker]) => ({
+        name: breaker.name,
+        region: endpoint.name,
+        api,
+        ...breaker.getStatus()
+      }))
+    );
+  }
+
+  /**
+   * 手动重置熔断器，未指定名称时重置全部，返回已重置的熔断器名称
+   */
+  resetCircuitBreakers(name?: string): string[] {
+    const breakers = this.endpoints
+      .flatMap(endpoint => Array.from(endpoint.circuitBreakers.values()))
+      .filter(breaker => !name || breaker.name === name);
+
+    if (name && breakers.length === 0) {
+      throw new TongyiError('VALIDATION_ERROR', `熔断器不存在: ${name}`);
+    }
+
+    breakers.forEach(breaker => breaker.reset());
+    return breakers.map(breaker => breaker.name);
+  }
+}
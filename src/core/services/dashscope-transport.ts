@@ -0,0 +1,134 @@
+import { Config, TongyiError, anySignal, throwIfAborted } from '../../infrastructure/index.js';
+
+/**
+ * DashScope 请求描述
+ */
+export interface DashScopeRequest {
+  method: 'GET' | 'POST';
+  /** 以 / 开头的 API 路径，如 /api/v1/tasks/xxx */
+  path: string;
+  apiKey: string;
+  body?: unknown;
+  query?: Record<string, string | number | undefined>;
+  /** 是否以异步任务方式提交（X-DashScope-Async） */
+  async?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * DashScope 响应
+ */
+export interface DashScopeResponse<T = any> {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** 已解析的 JSON 响应体（解析失败时为 undefined） */
+  data?: T;
+  /** 原始响应文本 */
+  text: string;
+}
+
+/**
+ * DashScope 传输层接口
+ * 服务层只依赖此接口，便于替换为模拟器或其他实现
+ */
+export interface DashScopeTransport {
+  readonly baseUrl: string;
+  send<T = any>(request: DashScopeRequest): Promise<DashScopeResponse<T>>;
+}
+
+/**
+ * 基于 fetch 的 HTTP 传输实现
+ */
+export class HttpDashScopeTransport implements DashScopeTransport {
+  readonly baseUrl: string;
+
+  constructor(
+    baseUrl: string = Config.BASE_URL,
+    private readonly timeoutMs: number = Config.REQUEST_TIMEOUT
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * 构建完整请求 URL
+   */
+  buildUrl(path: string, query?: DashScopeRequest['query']): string {
+    const url = new URL(`${this.baseUrl}${path}`);
+    for (const [key, value] of Object.entries(query || {})) {
+      if (value !== undefined && value !== '') {
+        url.searchParams.set(key, String(value));
+      }
+    }
+    return url.toString();
+  }
+
+  async send<T = any>(request: DashScopeRequest): Promise<DashScopeResponse<T>> {
+    const headers: Record<string, string> = {
+      "Authorization": `Bearer ${request.apiKey}`
+    };
+    if (request.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+    if (request.async) {
+      headers["X-DashScope-Async"] = "enable";
+    }
+
+    // 请求超时与调用方取消信号合并
+    const timeoutSignal = AbortSignal.timeout(this.timeoutMs);
+    const signal = anySignal([request.signal, timeoutSignal]);
+
+    let response: Response;
+    try {
+      response = await fetch(this.buildUrl(request.path, request.query), {
+        method: request.method,
+        headers,
+        body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+        signal
+      });
+    } catch (error) {
+      if (timeoutSignal.aborted && !request.signal?.aborted) {
+        throw new TongyiError(
+          'TIMEOUT_ERROR',
+          `DashScope 请求超时 (${this.timeoutMs}ms): ${request.method} ${request.path}`,
+          undefined,
+          error,
+          true
+        );
+      }
+      throwIfAborted(request.signal, `DashScope 请求 ${request.method} ${request.path} `);
+      throw new TongyiError(
+        'NETWORK_ERROR',
+        `DashScope 网络请求失败: ${request.method} ${request.path}: ${error instanceof Error ? error.message : String(error)}`,
+        undefined,
+        error,
+        true
+      );
+    }
+
+    let text: string;
+    try {
+      text = await response.text();
+    } catch (error) {
+      // 读取响应时被调用方取消
+      throwIfAborted(request.signal, `DashScope 请求 ${request.method} ${request.path} `);
+      throw error;
+    }
+    let data: T | undefined;
+    try {
+      data = text ? JSON.parse(text) as T : undefined;
+    } catch {
+      data = undefined;
+    }
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      data,
+      text
+    };
+  }
+}
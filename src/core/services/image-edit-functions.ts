@@ -0,0 +1,297 @@
+import { z } from 'zod';
+
+// 图像编辑功能枚举
+export const IMAGE_EDIT_FUNCTIONS = {
+  STYLIZATION_ALL: "stylization_all",
+  STYLIZATION_LOCAL: "stylization_local",
+  DESCRIPTION_EDIT: "description_edit",
+  DESCRIPTION_EDIT_WITH_MASK: "description_edit_with_mask",
+  REMOVE_WATERMARK: "remove_watermark",
+  EXPAND: "expand",
+  SUPER_RESOLUTION: "super_resolution",
+  COLORIZATION: "colorization",
+  DOODLE: "doodle",
+  CONTROL_CARTOON_FEATURE: "control_cartoon_feature"
+} as const;
+
+export type ImageEditFunction = typeof IMAGE_EDIT_FUNCTIONS[keyof typeof IMAGE_EDIT_FUNCTIONS];
+
+/**
+ * 局部风格化支持的风格，提示词中需包含其中之一
+ */
+export const STYLIZATION_LOCAL_STYLES = ['冰雕', '云朵', '花灯', '木板', '青花瓷', '毛茸茸', '毛线', '气球'] as const;
+
+/**
+ * 图像编辑功能定义
+ * 功能专属参数的 Zod Schema 同时用于请求校验、image_edit 工具的 inputSchema 和 get_image_edit_functions 的输出
+ */
+export interface ImageEditFunctionDefinition {
+  name: ImageEditFunction;
+  displayName: string;
+  description: string;
+  usage: string;
+  examples: string;
+  /** 该功能专属的参数，其他功能传入这些参数时校验失败 */
+  parameters: z.ZodRawShape;
+  /** 参数之间的约束说明 */
+  rules?: string[];
+  /** 校验参数之间的约束 */
+  validate?: (data: Record<string, any>, ctx: z.RefinementCtx) => void;
+}
+
+const strength = z.number()
+  .min(0.0, "strength 不能小于 0")
+  .max(1.0, "strength 不能大于 1")
+  .default(0.5)
+  .describe("图像修改幅度，越大与原图差异越大");
+
+function expandScale(direction: string) {
+  return z.number()
+    .min(1.0, `${direction}扩展比例不能小于 1.0`)
+    .max(2.0, `${direction}扩展比例不能大于 2.0`)
+    .default(1.0)
+    .describe(`${direction}扩展比例`);
+}
+
+export const IMAGE_EDIT_FUNCTION_DEFINITIONS: ImageEditFunctionDefinition[] = [
+  {
+    name: IMAGE_EDIT_FUNCTIONS.STYLIZATION_ALL,
+    displayName: "全局风格化",
+    description: "对整张图像进行风格迁移",
+    usage: "转换成法国绘本风格/金箔艺术风格",
+    examples: "转换成法国绘本风格",
+    parameters: { strength }
+  },
+  {
+    name: IMAGE_EDIT_FUNCTIONS.STYLIZATION_LOCAL,
+    displayName: "局部风格化",
+    description: "对图像局部区域进行风格迁移",
+    usage: `支持${STYLIZATION_LOCAL_STYLES.length}种风格：${STYLIZATION_LOCAL_STYLES.join('、')}`,
+    examples: "把房子变成木板风格",
+    parameters: {},
+    rules: [`提示词需包含以下风格之一：${STYLIZATION_LOCAL_STYLES.join('、')}`],
+    validate: (data, ctx) => {
+      if (!STYLIZATION_LOCAL_STYLES.some(style => data.prompt.includes(style))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `局部风格化的提示词需包含以下风格之一：${STYLIZATION_LOCAL_STYLES.join('、')}，如"把房子变成木板风格"`,
+          path: ["prompt"]
+        });
+      }
+    }
+  },
+  {
+    name: IMAGE_EDIT_FUNCTIONS.DESCRIPTION_EDIT,
+    displayName: "指令编辑",
+    description: "通过指令进行图像编辑，无需指定区域",
+    usage: "适合全局调整或粗略修改",
+    examples: "把女孩的头发修改为红色",
+    parameters: { strength }
+  },
+  {
+    name: IMAGE_EDIT_FUNCTIONS.DESCRIPTION_EDIT_WITH_MASK,
+    displayName: "局部重绘",
+    description: "对指定区域进行精确编辑",
+    usage: "需要提供遮罩图像，白色区域为编辑区域",
+    examples: "一只陶瓷兔子抱着一朵陶瓷花",
+    parameters: {
+      mask_image_url: z.string({ required_error: "局部重绘功能必须提供遮罩图像 mask_image_url" })
+        .min(1, "遮罩图像不能为空")
+        .describe("遮罩图像，支持的格式同 base_image_url。白色区域为编辑区域，黑色区域保持不变，尺寸需与基础图像一致")
+    }
+  },
+  {
+    name: IMAGE_EDIT_FUNCTIONS.REMOVE_WATERMARK,
+    displayName: "去文字水印",
+    description: "去除图像中的文字和水印",
+    usage: "支持中英文文字去除",
+    examples: "去除图像中的文字",
+    parameters: {}
+  },
+  {
+    name: IMAGE_EDIT_FUNCTIONS.EXPAND,
+    displayName: "扩图",
+    description: "在上下左右四个方向按比例扩展图像",
+    usage: "可分别设置各方向的扩展比例",
+    examples: "一位绿色仙子",
+    parameters: {
+      top_scale: expandScale("向上"),
+      bottom_scale: expandScale("向下"),
+      left_scale: expandScale("向左"),
+      right_scale: expandScale("向右")
+    },
+    rules: ["至少一个方向的扩展比例需大于 1.0"],
+    validate: (data, ctx) => {
+      const scales = [data.top_scale, data.bottom_scale, data.left_scale, data.right_scale];
+      if (scales.every(scale => scale <= 1.0)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "扩图至少需要一个方向的扩展比例大于 1.0（top_scale/bottom_scale/left_scale/right_scale）",
+          path: ["top_scale"]
+        });
+      }
+    }
+  },
+  {
+    name: IMAGE_EDIT_FUNCTIONS.SUPER_RESOLUTION,
+    displayName: "图像超分",
+    description: "高清放大，提升图像分辨率",
+    usage: "可设置放大倍数1-4倍",
+    examples: "图像超分",
+    parameters: {
+      upscale_factor: z.number()
+        .int("upscale_factor 必须是整数")
+        .min(1, "upscale_factor 不能小于 1")
+        .max(4, "upscale_factor 不能大于 4")
+        .default(1)
+        .describe("放大倍数，为 1 时只提升清晰度不放大尺寸")
+    }
+  },
+  {
+    name: IMAGE_EDIT_FUNCTIONS.COLORIZATION,
+    displayName: "图像上色",
+    description: "将黑白/灰度图像转为彩色",
+    usage: "可在提示词中指定颜色",
+    examples: "蓝色背景，黄色的叶子",
+    parameters: {}
+  },
+  {
+    name: IMAGE_EDIT_FUNCTIONS.DOODLE,
+    displayName: "线稿生图",
+    description: "基于线稿生成图像",
+    usage: "可从RGB图像提取线稿或直接使用线稿图像",
+    examples: "北欧极简风格的客厅",
+    parameters: {
+      is_sketch: z.boolean()
+        .default(false)
+        .describe("输入图像是否为线稿，为 false 时先从 RGB 图像中提取线稿")
+    }
+  },
+  {
+    name: IMAGE_EDIT_FUNCTIONS.CONTROL_CARTOON_FEATURE,
+    displayName: "参考卡通形象生图",
+    description: "基于卡通形象生成新场景",
+    usage: "适合卡通IP开发和儿童教育",
+    examples: "卡通形象小心翼翼地探出头，窥视着房间内一颗璀璨的蓝色宝石",
+    parameters: {}
+  }
+];
+
+export function getImageEditFunction(name: string): ImageEditFunctionDefinition | undefined {
+  return IMAGE_EDIT_FUNCTION_DEFINITIONS.find(definition => definition.name === name);
+}
+
+/**
+ * 取出请求中属于该功能的专属参数
+ */
+export function pickImageEditParameters(params: { function: string } & Record<string, unknown>): Record<string, unknown> {
+  const definition = getImageEditFunction(params.function);
+  return Object.fromEntries(
+    Object.keys(definition?.parameters ?? {}).map(name => [name, params[name]])
+  );
+}
+
+/**
+ * 功能专属参数在工具 inputSchema 中的字段，描述中注明适用的功能
+ */
+export function buildImageEditToolProperties(): Record<string, Record<string, unknown>> {
+  const properties: Record<string, Record<string, unknown>> = {
+    function: {
+      type: "string",
+      enum: IMAGE_EDIT_FUNCTION_DEFINITIONS.map(definition => definition.name),
+      description: `图像编辑功能类型：${IMAGE_EDIT_FUNCTION_DEFINITIONS.map(definition =>
+        `${definition.name}(${definition.displayName})`).join('、')}。各功能只接受自己的专属参数`
+    }
+  };
+
+  for (const [name, schema] of collectParameters()) {
+    const users = IMAGE_EDIT_FUNCTION_DEFINITIONS.filter(definition => name in definition.parameters);
+    const property = toJsonSchemaProperty(schema);
+    properties[name] = {
+      ...property,
+      description: `${property.description ?? name}（仅适用于: ${users.map(definition => definition.name).join('、')}）`
+    };
+  }
+
+  return properties;
+}
+
+/**
+ * get_image_edit_functions 的输出
+ */
+export function describeImageEditFunctions(): Array<{
+  name: string;
+  displayName: string;
+  description: string;
+  usage: string;
+  parameters: Array<Record<string, unknown>>;
+  rules?: string[];
+  examples: string;
+}> {
+  return IMAGE_EDIT_FUNCTION_DEFINITIONS.map(definition => ({
+    name: definition.name,
+    displayName: definition.displayName,
+    description: definition.description,
+    usage: definition.usage,
+    parameters: Object.entries(definition.parameters).map(([name, schema]) => ({
+      name,
+      required: !schema.isOptional(),
+      ...toJsonSchemaProperty(schema)
+    })),
+    ...(definition.rules && { rules: definition.rules }),
+    examples: definition.examples
+  }));
+}
+
+/**
+ * 所有功能的专属参数（同名参数只取一次）
+ */
+function collectParameters(): Map<string, z.ZodTypeAny> {
+  const parameters = new Map<string, z.ZodTypeAny>();
+  for (const definition of IMAGE_EDIT_FUNCTION_DEFINITIONS) {
+    for (const [name, schema] of Object.entries(definition.parameters)) {
+      if (!parameters.has(name)) {
+        parameters.set(name, schema);
+      }
+    }
+  }
+  return parameters;
+}
+
+/**
+ * 将功能参数的 Zod Schema 转为 JSON Schema 字段（只支持参数中用到的类型）
+ */
+function toJsonSchemaProperty(schema: z.ZodTypeAny): Record<string, unknown> {
+  const description = schema.description;
+  let inner = schema;
+  let defaultValue: unknown;
+
+  if (inner instanceof z.ZodOptional) {
+    inner = inner.unwrap();
+  }
+  if (inner instanceof z.ZodDefault) {
+    defaultValue = inner._def.defaultValue();
+    inner = inner.removeDefault();
+  }
+
+  const property: Record<string, unknown> = {};
+  if (inner instanceof z.ZodNumber) {
+    property.type = inner.isInt ? "integer" : "number";
+    if (inner.minValue !== null) {
+      property.minimum = inner.minValue;
+    }
+    if (inner.maxValue !== null) {
+      property.maximum = inner.maxValue;
+    }
+  } else if (inner instanceof z.ZodBoolean) {
+    property.type = "boolean";
+  } else if (inner instanceof z.ZodString) {
+    property.type = "string";
+  }
+
+  return {
+    ...property,
+    ...(defaultValue !== undefined && { default: defaultValue }),
+    ...((description ?? inner.description) && { description: description ?? inner.description })
+  };
+}
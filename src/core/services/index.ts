@@ -6,9 +6,64 @@ export {
   TongyiWanxService,
   TextToImageSchema,
   ImageEditSchema,
+  ImageEditParams,
   QueryTaskSchema,
+  CancelTaskSchema,
+  ListTasksSchema,
+  ResetCircuitBreakerSchema,
   SUPPORTED_MODELS,
   SUPPORTED_IMAGE_EDIT_MODELS,
-  IMAGE_EDIT_FUNCTIONS,
-  TASK_STATUS
+  TASK_STATUS,
+  WaitForTaskOptions,
+  CreateTaskOptions,
+  ModelFallback,
+  IdempotencyKeySchema,
+  SubmitRequest,
+  SubmitReservation,
+  SubmitGuard,
+  CreateTaskResponse,
+  QueryTaskResponse
 } from './tongyi-service.js';
+export {
+  IMAGE_EDIT_FUNCTIONS,
+  IMAGE_EDIT_FUNCTION_DEFINITIONS,
+  STYLIZATION_LOCAL_STYLES,
+  ImageEditFunction,
+  ImageEditFunctionDefinition,
+  buildImageEditToolProperties,
+  describeImageEditFunctions
+} from './image-edit-functions.js';
+export {
+  DashScopeTransport,
+  DashScopeRequest,
+  DashScopeResponse,
+  HttpDashScopeTransport
+} from './dashscope-transport.js';
+export {
+  ModelRegistry,
+  ModelDefinition,
+  ModelDefinitionSchema,
+  ModelType,
+  modelRegistry
+} from './model-registry.js';
+export {
+  DashScopeEndpoint,
+  EndpointRouter,
+  CircuitBreakerStatus,
+  TASKS_API
+} from './dashscope-endpoints.js';
+export {
+  AdaptivePolling,
+  AdaptivePollingOptions
+} from './adaptive-polling.js';
+export {
+  TaskWatcher,
+  TaskWatcherStatus,
+  TaskQuery
+} from './task-watcher.js';
+export {
+  ApiKeyPool,
+  ApiKeyEntry,
+  ApiKeyState,
+  ApiKeyPoolOptions
+} from './api-key-pool.js';
@@ -0,0 +1,326 @@
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+import { Config, Logger } from '../../infrastructure/index.js';
+
+/**
+ * 模型类型
+ */
+export type ModelType = 'text-to-image' | 'image-to-image';
+
+const SIZE_PATTERN = /^\d{3,4}\*\d{3,4}$/;
+
+/**
+ * 图像尺寸约束
+ */
+const SizeRuleSchema = z.object({
+  /** 单边最小像素 */
+  min: z.number().int().positive(),
+  /** 单边最大像素 */
+  max: z.number().int().positive(),
+  /** 总像素上限（可选） */
+  max_pixels: z.number().int().positive().optional(),
+  /** 仅允许的尺寸列表（可选，设置后忽略范围约束） */
+  allowed: z.array(z.string().regex(SIZE_PATTERN)).optional(),
+  default: z.string().regex(SIZE_PATTERN),
+  recommended: z.array(z.string().regex(SIZE_PATTERN)).default([])
+});
+
+/**
+ * 模型定义，可通过 MODEL_REGISTRY_FILE 指定的 JSON 文件覆盖或新增
+ */
+export const ModelDefinitionSchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(['text-to-image', 'image-to-image']),
+  description: z.string(),
+  features: z.array(z.string()).default([]),
+  /** DashScope 接口路径 */
+  endpoint: z.string().startsWith('/'),
+  /** 是否为该类型的默认模型 */
+  default: z.boolean().default(false),
+  size: SizeRuleSchema.optional(),
+  max_n: z.number().int().min(1),
+  /** 支持的 parameters 字段 */
+  parameters: z.array(z.string()),
+  /** 支持的图像编辑功能（仅图像编辑模型） */
+  functions: z.array(z.string()).optional(),
+  pricing: z.object({
+    per_image: z.number().min(0),
+    currency: z.string().default('CNY')
+  }),
+  /** 任务提交限流（可选，默认使用 RATE_LIMIT_QPS / RATE_LIMIT_BURST） */
+  rate_limit: z.object({
+    qps: z.number().positive(),
+    burst: z.number().int().min(1)
+  }).optional(),
+  /** 备用模型（按顺序尝试）：该模型被限流、熔断或请求超时时改用同类型的备用模型创建任务 */
+  fallback: z.array(z.string()).optional()
+});
+
+export type ModelDefinition = z.infer<typeof ModelDefinitionSchema>;
+
+const ModelRegistryFileSchema = z.object({
+  /** true 时只使用文件中的模型，否则按名称合并到内置模型 */
+  replace: z.boolean().default(false),
+  models: z.array(ModelDefinitionSchema).min(1)
+});
+
+const TEXT_TO_IMAGE_ENDPOINT = '/api/v1/services/aigc/text2image/image-synthesis';
+const IMAGE_TO_IMAGE_ENDPOINT = '/api/v1/services/aigc/image2image/image-synthesis';
+
+const WANX_T2I_SIZE = {
+  min: 512,
+  max: 1440,
+  default: '1024*1024',
+  recommended: ['1024*1024', '720*1280', '1280*720', '768*1152', '1152*768']
+};
+
+const WANX_T2I_PARAMETERS = ['size', 'n', 'seed', 'prompt_extend', 'watermark'];
+
+/**
+ * 内置模型定义
+ */
+const DEFAULT_MODELS: z.input<typeof ModelDefinitionSchema>[] = [
+  {
+    name: 'wanx2.1-t2i-turbo',
+    type: 'text-to-image',
+    description: '通义万相2.1极速版',
+    features: ['生成速度快', '适合快速预览', '成本较低'],
+    endpoint: TEXT_TO_IMAGE_ENDPOINT,
+    default: true,
+    size: WANX_T2I_SIZE,
+    max_n: 4,
+    parameters: WANX_T2I_PARAMETERS,
+    pricing: { per_image: 0.14 },
+    fallback: ['wanx2.0-t2i-turbo']
+  },
+  {
+    name: 'wanx2.1-t2i-plus',
+    type: 'text-to-image',
+    description: '通义万相2.1增强版',
+    features: ['图像质量高', '细节丰富', '支持复杂场景'],
+    endpoint: TEXT_TO_IMAGE_ENDPOINT,
+    size: WANX_T2I_SIZE,
+    max_n: 4,
+    parameters: WANX_T2I_PARAMETERS,
+    pricing: { per_image: 0.20 },
+    fallback: ['wanx2.1-t2i-turbo', 'wanx2.0-t2i-turbo']
+  },
+  {
+    name: 'wanx2.0-t2i-turbo',
+    type: 'text-to-image',
+    description: '通义万相2.0极速版',
+    features: ['性价比高', '稳定可靠', '基础功能完整'],
+    endpoint: TEXT_TO_IMAGE_ENDPOINT,
+    size: WANX_T2I_SIZE,
+    max_n: 4,
+    parameters: WANX_T2I_PARAMETERS,
+    pricing: { per_image: 0.04 }
+  },
+  {
+    name: 'wanx2.1-imageedit',
+    type: 'image-to-image',
+    description: '通义万相2.1图像编辑',
+    features: [
+      '全局/局部风格化',
+      '指令编辑/局部重绘',
+      '去水印/扩图',
+      '图像超分/上色',
+      '线稿生图/卡通形象生图'
+    ],
+    endpoint: IMAGE_TO_IMAGE_ENDPOINT,
+    default: true,
+    max_n: 4,
+    parameters: [
+      'n', 'seed', 'watermark', 'strength',
+      'top_scale', 'bottom_scale', 'left_scale', 'right_scale',
+      'upscale_factor', 'is_sketch'
+    ],
+    functions: [
+      'stylization_all', 'stylization_local', 'description_edit', 'description_edit_with_mask',
+      'remove_watermark', 'expand', 'super_resolution', 'colorization', 'doodle', 'control_cartoon_feature'
+    ],
+    pricing: { per_image: 0.14 }
+  }
+];
+
+/**
+ * 模型注册表
+ * 统一描述各模型的接口地址、尺寸约束、数量上限、支持参数和价格
+ */
+export class ModelRegistry {
+  private readonly models: Map<string, ModelDefinition>;
+
+  constructor(models: ModelDefinition[]) {
+    this.models = new Map(models.map(model => [model.name, model]));
+
+    for (const type of ['text-to-image', 'image-to-image'] as const) {
+      if (this.getModels(type).length === 0) {
+        throw new Error(`模型注册表缺少 ${type} 类型的模型`);
+      }
+    }
+  }
+
+  /**
+   * 加载模型注册表：内置模型 + JSON 文件（可选）
+   * 文件无效时记录错误并使用内置模型
+   */
+  static load(file: string | undefined = Config.MODEL_REGISTRY_FILE): ModelRegistry {
+    const defaults = DEFAULT_MODELS.map(model => ModelDefinitionSchema.parse(model));
+    if (!file) {
+      return new ModelRegistry(defaults);
+    }
+
+    try {
+      if (!existsSync(file)) {
+        throw new Error(`文件不存在: ${file}`);
+      }
+
+      const data = ModelRegistryFileSchema.parse(JSON.parse(readFileSync(file, 'utf-8')));
+      const merged = new Map<string, ModelDefinition>(
+        data.replace ? [] : defaults.map(model => [model.name, model])
+      );
+      for (const model of data.models) {
+        merged.set(model.name, model);
+      }
+
+      const registry = new ModelRegistry(Array.from(merged.values()));
+      Logger.info(`已从 ${file} 加载 ${data.models.length} 个模型定义`);
+      return registry;
+    } catch (error) {
+      Logger.error(`加载模型注册表失败，使用内置模型: ${file}`, error);
+      return new ModelRegistry(defaults);
+    }
+  }
+
+  getModel(name: string): ModelDefinition | undefined {
+    return this.models.get(name);
+  }
+
+  getModels(type?: ModelType): ModelDefinition[] {
+    return Array.from(this.models.values()).filter(model => !type || model.type === type);
+  }
+
+  getModelNames(type: ModelType): [string, ...string[]] {
+    return this.getModels(type).map(model => model.name) as [string, ...string[]];
+  }
+
+  /**
+   * 获取该类型的默认模型（未标记时取第一个）
+   */
+  getDefaultModel(type: ModelType): ModelDefinition {
+    const models = this.getModels(type);
+    return models.find(model => model.default) || models[0];
+  }
+
+  /**
+   * 模型的备用模型链：只保留已注册、类型相同的模型
+   */
+  getFallbackChain(modelName: string): ModelDefinition[] {
+    const model = this.getModel(modelName);
+    return (model?.fallback || [])
+      .filter(name => name !== modelName)
+      .map(name => this.getModel(name))
+      .filter((fallback): fallback is ModelDefinition => fallback?.type === model?.type);
+  }
+
+  supportsParameter(modelName: string, parameter: string): boolean {
+    return this.getModel(modelName)?.parameters.includes(parameter) ?? false;
+  }
+
+  /**
+   * 校验尺寸，返回错误信息；合法时返回 undefined
+   */
+  validateSize(modelName: string, size: string): string | undefined {
+    const rule = this.getModel(modelName)?.size;
+    if (!rule) {
+      return undefined;
+    }
+
+    if (rule.allowed) {
+      return rule.allowed.includes(size)
+        ? undefined
+        : `模型 ${modelName} 仅支持以下尺寸: ${rule.allowed.join('、')}`;
+    }
+
+    const [width, height] = size.split('*').map(Number);
+    if (width < rule.min || width > rule.max || height < rule.min || height > rule.max) {
+      return `模型 ${modelName} 的图像尺寸必须在${rule.min}-${rule.max}像素范围内`;
+    }
+    if (rule.max_pixels && width * height > rule.max_pixels) {
+      return `模型 ${modelName} 的图像总像素不能超过 ${rule.max_pixels}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * 尺寸约束说明
+   */
+  describeSize(model: ModelDefinition): string | undefined {
+    const rule = model.size;
+    if (!rule) {
+      return undefined;
+    }
+    if (rule.allowed) {
+      return `可选尺寸 ${rule.allowed.join('、')}`;
+    }
+    return `宽高范围 [${rule.min}, ${rule.max}]${rule.max_pixels ? `，总像素不超过 ${rule.max_pixels}` : ''}`;
+  }
+
+  /**
+   * 工具 inputSchema 中的 model 字段
+   */
+  buildModelProperty(type: ModelType): Record<string, unknown> {
+    const models = this.getModels(type);
+    return {
+      type: "string",
+      enum: models.map(model => model.name),
+      default: this.getDefaultModel(type).name,
+      description: `选择的模型版本。${models.map(model => `${model.name}(${model.description}，${model.pricing.per_image}${model.pricing.currency}/张)`).join('、')}`
+    };
+  }
+
+  /**
+   * 工具 inputSchema 中的 n 字段
+   */
+  buildCountProperty(type: ModelType): Record<string, unknown> {
+    const models = this.getModels(type);
+    const maxN = Math.max(...models.map(model => model.max_n));
+    const limits = models.map(model => `${model.name} 最多 ${model.max_n} 张`).join('，');
+    return {
+      type: "integer",
+      minimum: 1,
+      maximum: maxN,
+      default: 1,
+      description: `生成图片的数量。${limits}`
+    };
+  }
+
+  /**
+   * 工具 inputSchema 中的 size 字段
+   */
+  buildSizeProperty(type: ModelType): Record<string, unknown> {
+    const models = this.getModels(type).filter(model => model.size);
+    const defaultModel = this.getDefaultModel(type);
+    return {
+      type: "string",
+      pattern: SIZE_PATTERN.source,
+      default: defaultModel.size?.default,
+      description: `生成图像的分辨率，格式为 宽*高，如 1024*1024。${models.map(model => `${model.name}: ${this.describeSize(model)}`).join('；')}`
+    };
+  }
+
+  /**
+   * get_supported_models 输出
+   */
+  describe(): Array<ModelDefinition & { size_rule?: string }> {
+    return this.getModels().map(model => ({
+      ...model,
+      size_rule: this.describeSize(model)
+    }));
+  }
+}
+
+/**
+ * 全局模型注册表
+ */
+export const modelRegistry = ModelRegistry.load();
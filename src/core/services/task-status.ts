@@ -0,0 +1,9 @@
+// 任务状态枚举
+export const TASK_STATUS = {
+  PENDING: "PENDING",
+  RUNNING: "RUNNING", 
+  SUCCEEDED: "SUCCEEDED",
+  FAILED: "FAILED",
+  CANCELED: "CANCELED",
+  UNKNOWN: "UNKNOWN"
+} as const;
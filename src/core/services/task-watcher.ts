@@ -0,0 +1,348 @@
+import { Config, Logger, TongyiError, createCancelledError } from '../../infrastructure/index.js';
+import type { QueryTaskResponse, WaitForTaskOptions } from './tongyi-service.js';
+import { AdaptivePolling } from './adaptive-polling.js';
+import { TASK_STATUS } from './task-status.js';
+
+/**
+ * 查询任务状态的方法
+ */
+export type TaskQuery = (taskId: string, signal?: AbortSignal) => Promise<QueryTaskResponse>;
+
+/**
+ * 等待同一任务的一个调用方
+ */
+interface TaskWaiter {
+  resolve: (result: QueryTaskResponse) => void;
+  reject: (error: unknown) => void;
+  onStatusChange?: WaitForTaskOptions['onStatusChange'];
+  /** 移除超时定时器和取消监听 */
+  dispose: () => void;
+}
+
+/**
+ * 被监视的任务
+ */
+interface WatchedTask {
+  taskId: string;
+  waiters: Set<TaskWaiter>;
+  /** 初始轮询间隔（由第一个调用方决定） */
+  initialInterval: number;
+  nextPollAt: number;
+  /** 当前状态下已轮询的次数 */
+  attempt: number;
+  /** 连续查询失败的次数 */
+  failures: number;
+  lastStatus: string;
+  lastResult?: QueryTaskResponse;
+  polling: boolean;
+  /** 任务已被本地取消，下一次查询后以取消状态结束 */
+  cancelled: boolean;
+}
+
+/**
+ * 任务监视器状态
+ */
+export interface TaskWatcherStatus {
+  watching: number;
+  waiters: number;
+  inFlightQueries: number;
+  maxConcurrentQueries: number;
+  nextPollInMs?: number;
+}
+
+/**
+ * 任务的终态（UNKNOWN 表示任务已不存在或已过期，继续轮询也不会变化）
+ */
+const FINAL_STATUSES: string[] = [
+  TASK_STATUS.SUCCEEDED,
+  TASK_STATUS.FAILED,
+  TASK_STATUS.CANCELED,
+  TASK_STATUS.UNKNOWN
+];
+
+/**
+ * 相隔不超过该时长的到期查询合并到同一轮执行
+ */
+const BATCH_WINDOW_MS = 250;
+
+/**
+ * 查询失败后退避重试的最长间隔
+ */
+const MAX_FAILURE_BACKOFF_MS = 30000;
+
+/**
+ * 暂时性的查询失败（网络、超时、限流、服务端错误或接口熔断），任务本身不受影响，退避后继续轮询
+ */
+function isTransientQueryError(error: unknown): boolean {
+  return error instanceof TongyiError && (error.retryable || error.code === 'CIRCUIT_BREAKER_OPEN');
+}
+
+/**
+ * 任务监视器
+ * 统一跟踪所有未完成的任务，按共享的调度表轮询状态：同一任务的多个调用方共享查询，
+ * 临近到期的任务合并到同一轮查询，同时进行的查询数量受限，避免大量任务的轮询挤占任务提交
+ */
+export class TaskWatcher {
+  private readonly tasks: Map<string, WatchedTask> = new Map();
+  private timer?: NodeJS.Timeout;
+  private scheduledAt?: number;
+  private inFlightQueries = 0;
+  private readonly abortController = new AbortController();
+
+  constructor(
+    private readonly query: TaskQuery,
+    private readonly polling: AdaptivePolling,
+    private readonly maxConcurrentQueries: number = Config.TASK_POLL_CONCURRENCY
+  ) {}
+
+  /**
+   * 等待任务结束；同一任务已在监视时加入等待，不会产生额外的查询
+   * @param initialInterval 初始轮询间隔，仅在开始监视该任务时生效
+   */
+  watch(
+    taskId: string,
+    maxWaitTime: number,
+    initialInterval: number,
+    options: WaitForTaskOptions = {}
+  ): Promise<QueryTaskResponse> {
+    if (options.signal?.aborted) {
+      return Promise.reject(createCancelledError(`等待任务 ${taskId} `, options.signal.reason));
+    }
+
+    let task = this.tasks.get(taskId);
+    if (!task) {
+      task = {
+        taskId,
+        waiters: new Set(),
+        initialInterval,
+        nextPollAt: Date.now(),
+        attempt: 0,
+        failures: 0,
+        lastStatus: '',
+        polling: false,
+        cancelled: false
+      };
+      this.tasks.set(taskId, task);
+      Logger.info(`开始等待任务完成: ${taskId}, 最大等待时间: ${maxWaitTime}ms`);
+    }
+    const watched = task;
+
+    return new Promise<QueryTaskResponse>((resolve, reject) => {
+      const startTime = Date.now();
+      const { signal } = options;
+
+      const waiter: TaskWaiter = {
+        resolve,
+        reject,
+        onStatusChange: options.onStatusChange,
+        dispose: () => {
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
+        }
+      };
+
+      const leave = (error: unknown) => {
+        waiter.dispose();
+        watched.waiters.delete(waiter);
+        if (watched.waiters.size === 0 && this.tasks.get(taskId) === watched) {
+          this.tasks.delete(taskId);
+          this.schedule();
+        }
+        reject(error);
+      };
+
+      const timeout = setTimeout(() => {
+        const elapsed = Date.now() - startTime;
+        Logger.warn(`任务 ${taskId} 等待超时，已等待: ${elapsed}ms`);
+        leave(new TongyiError(
+          'TIMEOUT_ERROR',
+          `任务 ${taskId} 等待超时，请稍后手动查询任务状态`,
+          undefined,
+          { taskId, elapsed, maxWaitTime }
+        ));
+      }, maxWaitTime);
+
+      const onAbort = () => leave(createCancelledError(`等待任务 ${taskId} `, signal?.reason));
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      watched.waiters.add(waiter);
+      // 后加入的调用方立即收到当前状态
+      if (watched.lastResult) {
+        waiter.onStatusChange?.(watched.lastStatus, watched.lastResult);
+      }
+      this.schedule();
+    });
+  }
+
+  /**
+   * 是否有调用方在等待该任务
+   */
+  isWatching(taskId: string): boolean {
+    return this.tasks.has(taskId);
+  }
+
+  /**
+   * 任务已取消：立即再查询一次，远端状态尚未同步时以取消状态结束等待
+   */
+  markCancelled(taskId: string): void {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      return;
+    }
+    task.cancelled = true;
+    task.nextPollAt = Date.now();
+    Logger.debug(`已通知 ${task.waiters.size} 个等待任务 ${taskId} 的调用方`);
+    this.schedule();
+  }
+
+  getStatus(): TaskWatcherStatus {
+    const tasks = Array.from(this.tasks.values());
+    return {
+      watching: tasks.length,
+      waiters: tasks.reduce((sum, task) => sum + task.waiters.size, 0),
+      inFlightQueries: this.inFlightQueries,
+      maxConcurrentQueries: this.maxConcurrentQueries,
+      ...(this.scheduledAt !== undefined && { nextPollInMs: Math.max(this.scheduledAt - Date.now(), 0) })
+    };
+  }
+
+  /**
+   * 停止监视，所有等待中的调用方以取消错误结束
+   */
+  destroy(): void {
+    this.abortController.abort();
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.scheduledAt = undefined;
+    for (const task of this.tasks.values()) {
+      this.settle(task, waiter => waiter.reject(createCancelledError(`等待任务 ${task.taskId} `)));
+    }
+  }
+
+  /**
+   * 按最早到期的任务设置下一轮查询的定时器
+   */
+  private schedule(): void {
+    const due = Array.from(this.tasks.values())
+      .filter(task => !task.polling)
+      .map(task => task.nextPollAt);
+
+    if (due.length === 0 || this.abortController.signal.aborted) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      this.scheduledAt = undefined;
+      return;
+    }
+
+    const next = Math.min(...due);
+    if (this.timer && this.scheduledAt !== undefined && this.scheduledAt <= next) {
+      return;
+    }
+
+    clearTimeout(this.timer);
+    this.scheduledAt = next;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.scheduledAt = undefined;
+      this.pollDueTasks();
+    }, Math.max(next - Date.now(), 0));
+  }
+
+  /**
+   * 查询所有到期的任务，同时进行的查询不超过上限，其余留到下一轮
+   */
+  private pollDueTasks(): void {
+    const now = Date.now();
+    const due = Array.from(this.tasks.values())
+      .filter(task => !task.polling && task.nextPollAt <= now + BATCH_WINDOW_MS)
+      .sort((a, b) => a.nextPollAt - b.nextPollAt)
+      .slice(0, Math.max(this.maxConcurrentQueries - this.inFlightQueries, 0));
+
+    if (due.length > 1) {
+      Logger.debug(`合并查询 ${due.length} 个任务的状态`);
+    }
+
+    for (const task of due) {
+      void this.pollTask(task);
+    }
+    this.schedule();
+  }
+
+  private async pollTask(task: WatchedTask): Promise<void> {
+    task.polling = true;
+    this.inFlightQueries++;
+
+    try {
+      const result = await this.query(task.taskId, this.abortController.signal);
+      this.handleResult(task, result);
+    } catch (error) {
+      if (this.tasks.get(task.taskId) !== task) {
+        return;
+      }
+      // 一次查询失败不结束等待：暂时性错误退避后继续轮询，直到各调用方的等待时间用完
+      if (isTransientQueryError(error) && !this.abortController.signal.aborted) {
+        task.failures++;
+        const delay = Math.min(task.initialInterval * 2 ** task.failures, MAX_FAILURE_BACKOFF_MS);
+        task.nextPollAt = Date.now() + delay;
+        Logger.warn(`查询任务 ${task.taskId} 状态失败（连续 ${task.failures} 次），${delay}ms 后重试: ${(error as Error).message}`);
+        return;
+      }
+      this.tasks.delete(task.taskId);
+      this.settle(task, waiter => waiter.reject(error));
+    } finally {
+      task.polling = false;
+      this.inFlightQueries--;
+      this.schedule();
+    }
+  }
+
+  private handleResult(task: WatchedTask, result: QueryTaskResponse): void {
+    // 查询期间所有调用方都已放弃等待
+    if (this.tasks.get(task.taskId) !== task) {
+      return;
+    }
+
+    const currentStatus = result.output.task_status;
+    task.lastResult = result;
+    task.failures = 0;
+
+    // 只在状态变化时记录日志
+    if (currentStatus !== task.lastStatus) {
+      Logger.info(`任务 ${task.taskId} 状态变更: ${task.lastStatus} -> ${currentStatus}`);
+      task.lastStatus = currentStatus;
+      task.attempt = 0;
+      task.waiters.forEach(waiter => waiter.onStatusChange?.(currentStatus, result));
+    }
+
+    if (FINAL_STATUSES.includes(currentStatus)) {
+      Logger.info(`任务 ${task.taskId} 完成，最终状态: ${currentStatus}`);
+      this.polling.recordCompletion(task.taskId, result);
+      this.tasks.delete(task.taskId);
+      this.settle(task, waiter => waiter.resolve(result));
+      return;
+    }
+
+    // 任务已被取消：远端状态可能尚未同步，直接以取消状态结束本地等待
+    if (task.cancelled) {
+      Logger.info(`任务 ${task.taskId} 已取消，停止轮询`);
+      this.tasks.delete(task.taskId);
+      this.settle(task, waiter => waiter.resolve({
+        ...result,
+        output: { ...result.output, task_status: TASK_STATUS.CANCELED }
+      }));
+      return;
+    }
+
+    const delay = this.polling.getNextDelay(task.taskId, result, task.attempt++, task.initialInterval);
+    task.nextPollAt = Date.now() + delay;
+    Logger.debug(`任务 ${task.taskId} 状态 ${currentStatus}，${delay}ms 后再次查询`);
+  }
+
+  private settle(task: WatchedTask, finish: (waiter: TaskWaiter) => void): void {
+    for (const waiter of task.waiters) {
+      waiter.dispose();
+      finish(waiter);
+    }
+    task.waiters.clear();
+  }
+}
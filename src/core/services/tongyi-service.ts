@@ -1,31 +1,33 @@
 import { z } from 'zod';
-import { Config, Logger, TongyiError, ErrorHandler, CircuitBreaker, ConcurrencyManager, withPerformanceMonitoring, RequestPriority } from '../../infrastructure/index.js';
+import { Config, Logger, TongyiError, ErrorHandler, CircuitBreaker, ConcurrencyManager, withPerformanceMonitoring, RequestPriority, RateLimiter, RateLimitLaneStatus, parseRetryAfter } from '../../infrastructure/index.js';
+import { DashScopeTransport, DashScopeRequest, HttpDashScopeTransport } from './dashscope-transport.js';
+import { modelRegistry, ModelDefinition } from './model-registry.js';
+import { ApiKeyPool, ApiKeyEntry } from './api-key-pool.js';
+import { DashScopeEndpoint, EndpointRouter, CircuitBreakerStatus, TASKS_API } from './dashscope-endpoints.js';
+import { AdaptivePolling } from './adaptive-polling.js';
+import { TASK_STATUS } from './task-status.js';
+import { TaskWatcher, TaskWatcherStatus } from './task-watcher.js';
+import {
+  IMAGE_EDIT_FUNCTIONS,
+  IMAGE_EDIT_FUNCTION_DEFINITIONS,
+  ImageEditFunctionDefinition,
+  getImageEditFunction,
+  pickImageEditParameters,
+  describeImageEditFunctions
+} from './image-edit-functions.js';
 
-// 支持的模型
-export const SUPPORTED_MODELS = [
-  "wanx2.1-t2i-turbo",
-  "wanx2.1-t2i-plus", 
-  "wanx2.0-t2i-turbo"
-] as const;
+// 支持的模型（来自模型注册表）
+export const SUPPORTED_MODELS = modelRegistry.getModelNames('text-to-image');
 
 // 支持的图像编辑模型
-export const SUPPORTED_IMAGE_EDIT_MODELS = [
-  "wanx2.1-imageedit"
-] as const;
-
-// 任务状态枚举
-export const TASK_STATUS = {
-  PENDING: "PENDING",
-  RUNNING: "RUNNING", 
-  SUCCEEDED: "SUCCEEDED",
-  FAILED: "FAILED",
-  CANCELED: "CANCELED",
-  UNKNOWN: "UNKNOWN"
-} as const;
-
-// 请求参数 Schema - 增强验证
+export const SUPPORTED_IMAGE_EDIT_MODELS = modelRegistry.getModelNames('image-to-image');
+
+// 任务状态枚举（独立模块，供任务监视器使用而不产生循环依赖）
+export { TASK_STATUS };
+
+// 请求参数 Schema - 增强验证，尺寸和数量按模型注册表校验
 export const TextToImageSchema = z.object({
-  model: z.enum(SUPPORTED_MODELS).default("wanx2.1-t2i-turbo"),
+  model: z.enum(SUPPORTED_MODELS).default(modelRegistry.getDefaultModel('text-to-image').name),
   prompt: z.string()
     .min(1, "提示词不能为空")
     .max(800, "提示词长度不能超过800个字符")
@@ -35,86 +37,132 @@ export const TextToImageSchema = z.object({
     .optional(),
   size: z.string()
     .regex(/^\d{3,4}\*\d{3,4}$/, "图像尺寸格式应为 width*height")
-    .refine(val => {
-      const [width, height] = val.split('*').map(Number);
-      return width >= 512 && width <= 1440 && height >= 512 && height <= 1440;
-    }, "图像尺寸必须在512-1440像素范围内")
-    .default("1024*1024"),
-  n: z.number().int().min(1).max(4).default(1),
+    .optional(),
+  n: z.number().int().min(1).default(1),
   seed: z.number().int().min(0).max(2147483647).optional(),
   prompt_extend: z.boolean().default(true),
   watermark: z.boolean().default(false)
-});
+}).superRefine((data, ctx) => {
+  const model = modelRegistry.getModel(data.model)!;
+  const sizeError = data.size ? modelRegistry.validateSize(data.model, data.size) : undefined;
+  if (sizeError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: sizeError, path: ["size"] });
+  }
+  validateModelLimits(model, data, ctx);
+}).transform(data => ({
+  ...data,
+  // 未指定尺寸时使用模型默认尺寸
+  size: data.size || modelRegistry.getModel(data.model)?.size?.default || "1024*1024"
+}));
+
+/**
+ * 按模型注册表校验数量上限和参数支持情况
+ */
+function validateModelLimits(model: ModelDefinition, data: Record<string, any>, ctx: z.RefinementCtx): void {
+  if (data.n > model.max_n) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `模型 ${model.name} 每次最多生成 ${model.max_n} 张图片`,
+      path: ["n"]
+    });
+  }
+  if (data.function && model.functions && !model.functions.includes(data.function)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `模型 ${model.name} 不支持编辑功能 ${data.function}`,
+      path: ["function"]
+    });
+  }
+}
 
 export const QueryTaskSchema = z.object({
   task_id: z.string().min(1, "任务ID不能为空")
 });
 
-// 图像编辑功能枚举
-export const IMAGE_EDIT_FUNCTIONS = {
-  STYLIZATION_ALL: "stylization_all",
-  STYLIZATION_LOCAL: "stylization_local", 
-  DESCRIPTION_EDIT: "description_edit",
-  DESCRIPTION_EDIT_WITH_MASK: "description_edit_with_mask",
-  REMOVE_WATERMARK: "remove_watermark",
-  EXPAND: "expand",
-  SUPER_RESOLUTION: "super_resolution",
-  COLORIZATION: "colorization",
-  DOODLE: "doodle",
-  CONTROL_CARTOON_FEATURE: "control_cartoon_feature"
-} as const;
-
-// 图像编辑请求参数 Schema
-export const ImageEditSchema = z.object({
-  model: z.enum(SUPPORTED_IMAGE_EDIT_MODELS).default("wanx2.1-imageedit"),
+export const CancelTaskSchema = z.object({
+  task_id: z.string().min(1, "任务ID不能为空"),
+  reason: z.string().max(200, "取消原因不能超过200个字符").optional()
+});
+
+// 任务列表时间格式：20250108160359 或 2025-01-08 16:03:59
+const TASK_LIST_TIME_PATTERN = /^\d{4}-?\d{2}-?\d{2}[ T]?\d{2}:?\d{2}:?\d{2}$/;
+
+export const ListTasksSchema = z.object({
+  start_time: z.string()
+    .regex(TASK_LIST_TIME_PATTERN, "开始时间格式应为 YYYYMMDDhhmmss 或 YYYY-MM-DD hh:mm:ss")
+    .optional(),
+  end_time: z.string()
+    .regex(TASK_LIST_TIME_PATTERN, "结束时间格式应为 YYYYMMDDhhmmss 或 YYYY-MM-DD hh:mm:ss")
+    .optional(),
+  model_name: z.string().min(1, "模型名称不能为空").optional(),
+  status: z.enum([
+    TASK_STATUS.PENDING,
+    TASK_STATUS.RUNNING,
+    TASK_STATUS.SUCCEEDED,
+    TASK_STATUS.FAILED,
+    TASK_STATUS.CANCELED
+  ]).optional(),
+  page_no: z.number().int().min(1).default(1),
+  page_size: z.number().int().min(1).max(100).default(10)
+});
+
+// 熔断器名称为空时重置全部
+export const ResetCircuitBreakerSchema = z.object({
+  name: z.string().min(1, "熔断器名称不能为空").optional()
+});
+
+// 各功能共用的图像编辑参数
+const ImageEditBaseShape = {
+  model: z.enum(SUPPORTED_IMAGE_EDIT_MODELS).default(modelRegistry.getDefaultModel('image-to-image').name),
   prompt: z.string()
     .min(1, "提示词不能为空")
     .max(800, "提示词长度不能超过800个字符"),
-  function: z.enum([
-    IMAGE_EDIT_FUNCTIONS.STYLIZATION_ALL,
-    IMAGE_EDIT_FUNCTIONS.STYLIZATION_LOCAL,
-    IMAGE_EDIT_FUNCTIONS.DESCRIPTION_EDIT,
-    IMAGE_EDIT_FUNCTIONS.DESCRIPTION_EDIT_WITH_MASK,
-    IMAGE_EDIT_FUNCTIONS.REMOVE_WATERMARK,
-    IMAGE_EDIT_FUNCTIONS.EXPAND,
-    IMAGE_EDIT_FUNCTIONS.SUPER_RESOLUTION,
-    IMAGE_EDIT_FUNCTIONS.COLORIZATION,
-    IMAGE_EDIT_FUNCTIONS.DOODLE,
-    IMAGE_EDIT_FUNCTIONS.CONTROL_CARTOON_FEATURE
-  ]),
+  // 公网 URL、tongyi-wanx://images/{id} 资源 URI、本地文件路径或 base64 data URI，提交前解析为可下载的 URL
   base_image_url: z.string()
-    .url("基础图像URL格式不正确")
-    .refine(url => !url.includes('中文'), "URL地址中不能包含中文字符"),
-  mask_image_url: z.string()
-    .url("遮罩图像URL格式不正确")
-    .refine(url => !url.includes('中文'), "URL地址中不能包含中文字符")
-    .optional(),
-  // 通用参数
-  n: z.number().int().min(1).max(4).default(1),
+    .min(1, "基础图像不能为空"),
+  n: z.number().int().min(1).default(1),
   seed: z.number().int().min(0).max(2147483647).optional(),
-  watermark: z.boolean().default(false),
-  // 风格化和指令编辑参数
-  strength: z.number().min(0.0).max(1.0).default(0.5).optional(),
-  // 扩图参数
-  top_scale: z.number().min(1.0).max(2.0).default(1.0).optional(),
-  bottom_scale: z.number().min(1.0).max(2.0).default(1.0).optional(),
-  left_scale: z.number().min(1.0).max(2.0).default(1.0).optional(),
-  right_scale: z.number().min(1.0).max(2.0).default(1.0).optional(),
-  // 超分参数
-  upscale_factor: z.number().int().min(1).max(4).default(1).optional(),
-  // 线稿生图参数
-  is_sketch: z.boolean().default(false).optional()
-}).refine(data => {
-  // 局部重绘必须提供遮罩图像
-  if (data.function === IMAGE_EDIT_FUNCTIONS.DESCRIPTION_EDIT_WITH_MASK) {
-    return !!data.mask_image_url;
-  }
-  return true;
-}, {
-  message: "局部重绘功能必须提供遮罩图像URL",
-  path: ["mask_image_url"]
+  watermark: z.boolean().default(false)
+};
+
+/**
+ * 单个编辑功能的参数 Schema：共用参数加功能专属参数，传入其他功能的参数时报错
+ */
+function buildImageEditVariant(definition: ImageEditFunctionDefinition) {
+  const allowed = Object.keys(definition.parameters);
+  return z.object({
+    ...ImageEditBaseShape,
+    function: z.literal(definition.name),
+    ...definition.parameters
+  }, {
+    errorMap: (issue, ctx) => issue.code === z.ZodIssueCode.unrecognized_keys
+      ? {
+          message: `参数 ${issue.keys.join('、')} 不适用于${definition.displayName}（${definition.name}）功能，` +
+            (allowed.length > 0 ? `该功能的专属参数: ${allowed.join('、')}` : '该功能没有专属参数')
+        }
+      : { message: ctx.defaultError }
+  }).strict();
+}
+
+const imageEditVariants = IMAGE_EDIT_FUNCTION_DEFINITIONS.map(buildImageEditVariant);
+
+// 图像编辑请求参数 Schema：按 function 区分各功能的参数和约束
+export const ImageEditSchema = z.discriminatedUnion(
+  'function',
+  imageEditVariants as [typeof imageEditVariants[number], ...typeof imageEditVariants],
+  {
+    errorMap: (issue, ctx) => issue.code === z.ZodIssueCode.invalid_union_discriminator
+      ? { message: `不支持的图像编辑功能，可选: ${Object.values(IMAGE_EDIT_FUNCTIONS).join('、')}` }
+      : { message: ctx.defaultError }
+  }
+).superRefine((data, ctx) => {
+  getImageEditFunction(data.function)?.validate?.(data, ctx);
+  validateModelLimits(modelRegistry.getModel(data.model)!, data, ctx);
 });
 
+// 功能专属参数因 function 而异，按参数名读取
+export type ImageEditParams = z.infer<typeof ImageEditSchema> & Record<string, unknown>;
+
 // API 响应接口
 export interface CreateTaskResponse {
   output: {
@@ -124,6 +172,21 @@ export interface CreateTaskResponse {
   request_id: string;
   code?: string;
   message?: string;
+  /** 改用备用模型创建任务时的说明（本地字段） */
+  fallback?: ModelFallback;
+}
+
+/**
+ * 模型降级：请求的模型不可用时改用备用模型创建任务
+ */
+export interface ModelFallback {
+  /** 调用方请求的模型 */
+  requested_model: string;
+  /** 实际创建任务的模型 */
+  model: string;
+  reason: string;
+  /** 依次失败的模型及错误 */
+  attempts: Array<{ model: string; code: string; message: string }>;
 }
 
 export interface QueryTaskResponse {
@@ -145,6 +208,9 @@ export interface QueryTaskResponse {
       SUCCEEDED: number;
       FAILED: number;
     };
+    // 任务失败时的错误信息
+    code?: string;
+    message?: string;
   };
   usage?: {
     image_count: number;
@@ -154,138 +220,532 @@ export interface QueryTaskResponse {
   message?: string;
 }
 
+export interface TaskListItem {
+  task_id: string;
+  status: string;
+  model_name?: string;
+  gmt_create?: number;
+  start_time?: string;
+  end_time?: string;
+  region?: string;
+  request_id?: string;
+  user_api_unique_key?: string;
+}
+
+export interface ListTasksResponse {
+  request_id: string;
+  data: TaskListItem[];
+  page_no: number;
+  page_size: number;
+  total: number;
+  total_page?: number;
+  code?: string;
+  message?: string;
+}
+
+/**
+ * 等待任务完成的可选项
+ */
+export interface WaitForTaskOptions {
+  /** 任务状态变化时回调（包括首次查询到的状态） */
+  onStatusChange?: (status: string, result: QueryTaskResponse) => void;
+  /** 取消信号：触发后停止轮询，并尝试取消仍在排队的远端任务 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 幂等键：客户端超时后用相同的键重试，会得到同一个任务而不是创建新任务
+ */
+export const IdempotencyKeySchema = z.string()
+  .min(1, "idempotency_key 不能为空")
+  .max(128, "idempotency_key 长度不能超过128个字符")
+  .optional();
+
+/**
+ * 创建任务的选项
+ */
+export interface CreateTaskOptions {
+  idempotencyKey?: string;
+  /** 请求的模型不可用时是否允许改用备用模型（仅文生图），默认 MODEL_FALLBACK_ENABLE */
+  allowFallback?: boolean;
+  /**
+   * 调用方传入的原始图像输入（如资源 URI、本地路径），请求中的图像 URL 由其解析而来（仅图像编辑）。
+   * 解析出的签名 URL 每次都不同，请求去重和幂等键比较使用原始输入
+   */
+  originalInputs?: Record<string, string>;
+}
+
+/**
+ * 幂等键的保留时间，与任务结果的有效期一致
+ */
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 任务提交请求摘要，供提交前检查使用
+ */
+export interface SubmitRequest {
+  kind: 'text_to_image' | 'image_edit';
+  model: string;
+  imageCount: number;
+}
+
+/**
+ * 提交前预留的额度：任务创建成功后 commit，失败时 release
+ */
+export interface SubmitReservation {
+  commit(taskId: string): void;
+  release(): void;
+}
+
+/**
+ * 任务提交检查（如预算控制），不允许提交时抛出错误
+ */
+export type SubmitGuard = (request: SubmitRequest) => SubmitReservation;
+
+/**
+ * 请求使用 API Key 的方式
+ */
+interface RequestRouting {
+  /** 任务相关请求：必须使用创建该任务的 Key */
+  taskId?: string;
+  /** 创建任务的请求：成功后记录任务与 Key 的对应关系 */
+  createsTask?: boolean;
+  /** 是否在多个 Key 间轮询，默认 true；false 时优先使用靠前的 Key */
+  rotate?: boolean;
+  /** 指定区域，默认使用第一个健康的区域 */
+  endpoint?: DashScopeEndpoint;
+}
+
+/**
+ * 计入熔断器失败次数的错误码：只有网络错误、超时和 HTTP 5xx 说明接口不可用，
+ * 参数、鉴权、限流、额度和取消等错误不影响熔断。未识别的 DashScope 业务错误码（API_ERROR，
+ * 如取消运行中任务返回的 UnsupportedOperation）是对请求的正常拒绝，也不计入
+ */
+const ENDPOINT_FAILURE_CODES = new Set(['NETWORK_ERROR', 'TIMEOUT_ERROR', 'SERVER_ERROR', 'UNKNOWN_ERROR']);
+
+function isEndpointFailure(error: unknown): boolean {
+  // 客户端取消的请求不说明接口不可用，避免用户取消操作触发区域熔断
+  if (error instanceof Error && error.name === 'AbortError') {
+    return false;
+  }
+  return !(error instanceof TongyiError) || ENDPOINT_FAILURE_CODES.has(error.code);
+}
+
+/**
+ * 连接阶段的网络错误码：请求尚未发出，可以安全地重新提交
+ */
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'UND_ERR_CONNECT_TIMEOUT']);
+
+/**
+ * 创建任务的请求已发出但没有收到响应（超时或连接中断），任务可能已在服务端创建
+ */
+function isUncertainSubmitError(error: unknown): error is TongyiError {
+  if (!(error instanceof TongyiError)) {
+    return false;
+  }
+  if (error.code === 'TIMEOUT_ERROR') {
+    return true;
+  }
+  const causeCode = (error.originalError as { cause?: { code?: string } } | undefined)?.cause?.code;
+  return error.code === 'NETWORK_ERROR' && error.statusCode === undefined && !CONNECT_ERROR_CODES.has(causeCode ?? '');
+}
+
+/**
+ * 将结果不确定的提交错误标记为不可重试：自动重试会重复创建付费任务
+ */
+function toUncertainSubmitError(error: TongyiError, context: string): TongyiError {
+  const uncertain = new TongyiError(
+    error.code,
+    `${context}未收到响应，任务可能已经创建，未自动重试: ${error.message}`,
+    error.statusCode,
+    error.originalError,
+    false
+  );
+  uncertain.remediation = '请先用 list_tasks 确认任务是否已创建；需要重新提交时携带 idempotency_key，避免重复创建付费任务';
+  return uncertain;
+}
+
+/**
+ * 触发模型降级的错误码：限流、额度用尽和熔断说明该模型暂时不可用，且确定没有创建任务，换模型可能成功。
+ * 提交超时不降级：请求可能已在服务端创建了任务，改用备用模型会重复提交付费任务
+ */
+const FALLBACK_ERROR_CODES = new Set(['RATE_LIMIT', 'QUOTA_EXHAUSTED', 'CIRCUIT_BREAKER_OPEN']);
+
+const FALLBACK_REASONS: Record<string, string> = {
+  RATE_LIMIT: '请求被限流',
+  QUOTA_EXHAUSTED: '调用额度已用尽',
+  CIRCUIT_BREAKER_OPEN: '接口已熔断'
+};
+
+function getTaskStatus(result: unknown): string | undefined {
+  return (result as { output?: { task_status?: string } }).output?.task_status;
+}
+
 /**
  * 优化的通义万相服务类
  */
 export class TongyiWanxService {
-  private apiKey: string;
-  private baseUrl: string;
+  private endpoints: EndpointRouter;
+  private rateLimiter: RateLimiter;
+  private submitGuard?: SubmitGuard;
+  /** 正在提交的请求（按请求内容），相同的并发请求共享同一个任务 */
+  private inFlightSubmits: Map<string, Promise<CreateTaskResponse>> = new Map();
+  private idempotentSubmits: Map<string, { fingerprint: string; result: Promise<CreateTaskResponse>; expiresAt: number }> = new Map();
   private isTestMode: boolean;
   private concurrencyManager: ConcurrencyManager;
-  private circuitBreaker: CircuitBreaker;
+  private polling: AdaptivePolling = new AdaptivePolling();
+  /** 所有调用方等待任务时共享的状态轮询 */
+  private taskWatcher: TaskWatcher;
 
-  constructor(apiKey: string = Config.API_KEY || '') {
-    this.apiKey = apiKey;
-    this.baseUrl = Config.BASE_URL;
+  constructor(
+    apiKeys: string | string[] = Config.API_KEYS,
+    transport?: DashScopeTransport
+  ) {
+    const keys = Array.isArray(apiKeys) ? apiKeys : [apiKeys].filter(Boolean);
+    // 指定传输层时只使用该端点，否则按配置顺序创建各区域端点
+    const endpointConfigs = transport
+      ? [{ name: 'default', url: transport.baseUrl, apiKeys: undefined }]
+      : Config.ENDPOINTS;
+    this.endpoints = new EndpointRouter(
+      endpointConfigs.map(config => ({
+        name: config.name,
+        transport: transport || new HttpDashScopeTransport(config.url),
+        keyPool: new ApiKeyPool(config.apiKeys || keys),
+        circuitBreakers: new Map()
+      })),
+      // 每个区域的每个接口独立熔断，只有网络和服务端错误计入失败
+      name => new CircuitBreaker(name, {
+        failureThreshold: Config.CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+        timeout: Config.CIRCUIT_BREAKER_TIMEOUT,
+        monitoringPeriod: Config.CIRCUIT_BREAKER_MONITORING_PERIOD,
+        isFailure: isEndpointFailure
+      })
+    );
+    // 预先创建各接口的熔断器，便于在服务状态中查看
+    const apis = new Set([...modelRegistry.getModels().map(model => model.endpoint), TASKS_API]);
+    for (const endpoint of this.endpoints.getEndpoints()) {
+      apis.forEach(api => this.endpoints.getCircuitBreaker(endpoint, api));
+    }
     this.isTestMode = Config.IS_TEST_MODE;
     this.concurrencyManager = new ConcurrencyManager(Config.MAX_CONCURRENT_REQUESTS);
+    this.rateLimiter = new RateLimiter();
+    this.taskWatcher = new TaskWatcher((taskId, signal) => this.queryTask(taskId, signal), this.polling);
     
-    // 初始化熔断器：5次失败后熔断，恢复时间30秒
-    this.circuitBreaker = new CircuitBreaker('TongyiAPI', {
-      failureThreshold: 5,
-      timeout: 30000, // 30秒恢复时间
-      monitoringPeriod: 10000 // 10秒监控周期
-    });
-    
-    Logger.info(`通义万相服务初始化 ${this.isTestMode ? '(测试模式)' : ''}`);
+    const regions = this.endpoints.getEndpoints()
+      .map(endpoint => `${endpoint.name}(${endpoint.transport.baseUrl}，${endpoint.keyPool.size} 个 API Key)`)
+      .join(' -> ');
+    Logger.info(`通义万相服务初始化 ${this.isTestMode ? '(测试模式)' : ''}，区域: ${regions}`);
   }
 
   /**
-   * 创建文生图任务
+   * 从区域的密钥池选择 API Key 发送请求，请求经过该区域对应接口的熔断器
+   * Key 被限流、额度用尽或欠费时标记该 Key 并换下一个 Key 重试；任务相关请求固定使用创建任务的区域和 Key
    */
-  async createTextToImageTask(params: z.infer<typeof TextToImageSchema>): Promise<CreateTaskResponse> {
-    return this.concurrencyManager.execute(
-      async () => {
-        if (this.isTestMode) {
-          return this.createMockResponse(params);
-        }
+  private async sendRequest<T extends { code?: string; message?: string }>(
+    request: Omit<DashScopeRequest, 'apiKey'>,
+    context: string,
+    routing: RequestRouting = {}
+  ): Promise<T> {
+    if (routing.taskId) {
+      return this.sendTaskRequest<T>(request, context, routing.taskId);
+    }
 
-        // 使用熔断器保护API调用
-        return await this.circuitBreaker.execute(async () => {
-        return await ErrorHandler.wrapAsync(async () => {
-          const requestBody = {
-            model: params.model,
-            input: {
-              prompt: params.prompt,
-              ...(params.negative_prompt && { negative_prompt: params.negative_prompt })
-            },
-            parameters: {
-              size: params.size,
-              n: params.n,
-              ...(params.seed !== undefined && { seed: params.seed }),
-              prompt_extend: params.prompt_extend,
-              watermark: params.watermark
+    const endpoint = routing.endpoint || this.endpoints.getCandidates(request.path)[0];
+    const keyPool = endpoint.keyPool;
+    const tried = new Set<string>();
+    let entry = keyPool.acquire(tried, routing.rotate)!;
+
+    return this.endpoints.getCircuitBreaker(endpoint, request.path).execute(async () => {
+      while (true) {
+        tried.add(entry.id);
+        try {
+          const result = await this.sendWithKey<T>(request, context, endpoint, entry);
+          const taskId = routing.createsTask
+            ? (result as { output?: { task_id?: string } }).output?.task_id
+            : undefined;
+          keyPool.recordSuccess(entry, !!taskId);
+          if (taskId) {
+            keyPool.bindTask(taskId, entry);
+            this.endpoints.bindTask(taskId, endpoint);
+            if (endpoint !== this.endpoints.primary) {
+              Logger.info(`任务 ${taskId} 由备用区域 ${endpoint.name} 创建`);
             }
-          };
-
-          Logger.debug('创建文生图任务请求', { 
-            model: params.model, 
-            prompt: params.prompt.substring(0, 100) + '...',
-            size: params.size,
-            n: params.n
-          });
-
-          const url = `${this.baseUrl}/api/v1/services/aigc/text2image/image-synthesis`;
-          Logger.apiCall('POST', url);
-
-          const response = await fetch(url, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${this.apiKey}`,
-              "X-DashScope-Async": "enable"
-            },
-            body: JSON.stringify(requestBody)
-          });
-
-          Logger.apiCall('POST', url, response.status);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            Logger.error(`API请求失败: ${response.status} ${response.statusText}`, errorText);
-            ErrorHandler.handleApiError(response, '创建文生图任务');
           }
-
-          const result = await response.json() as CreateTaskResponse;
-          
-          if (result.code) {
-            Logger.error(`API业务错误: ${result.code} - ${result.message}`);
-            ErrorHandler.handleTongyiApiError(result, '创建文生图任务');
+          return result;
+        } catch (error) {
+          const next = keyPool.recordFailure(entry, error)
+            ? keyPool.acquire(tried, routing.rotate)
+            : undefined;
+          if (!next) {
+            throw routing.createsTask && isUncertainSubmitError(error) ? toUncertainSubmitError(error, context) : error;
           }
+          Logger.warn(`${context}: API Key ${entry.id} 不可用，切换到 ${next.id} 重试`);
+          entry = next;
+        }
+      }
+    });
+  }
 
-          Logger.info(`任务创建成功: ${result.output.task_id}`);
-          return result;
+  /**
+   * 发送任务相关请求
+   * 未记录任务归属（如服务重启后）时依次尝试各个区域和 Key，直到找到能查到该任务的区域和 Key
+   */
+  private async sendTaskRequest<T extends { code?: string; message?: string }>(
+    request: Omit<DashScopeRequest, 'apiKey'>,
+    context: string,
+    taskId: string
+  ): Promise<T> {
+    const boundEndpoint = this.endpoints.getEndpointForTask(taskId);
+    const endpoints = boundEndpoint ? [boundEndpoint] : this.endpoints.getEndpoints();
 
-        }, '创建文生图任务', 2); // 最多重试2次
-      });
-    }, RequestPriority.HIGH, '创建文生图任务');
+    let result: T | undefined;
+    let lastError: unknown;
+    for (const endpoint of endpoints) {
+      try {
+        result = await this.endpoints.getCircuitBreaker(endpoint, request.path).execute(
+          () => this.sendTaskRequestInRegion<T>(request, context, taskId, endpoint)
+        );
+      } catch (error) {
+        // 已知区域或唯一区域直接报错；查找归属时某个区域不可用则继续尝试其他区域
+        if (endpoints.length === 1) {
+          throw error;
+        }
+        lastError = error;
+        Logger.warn(`${context}: 区域 ${endpoint.name} 请求失败，尝试其他区域`);
+        continue;
+      }
+
+      if (getTaskStatus(result) !== TASK_STATUS.UNKNOWN) {
+        if (!boundEndpoint) {
+          this.endpoints.bindTask(taskId, endpoint);
+        }
+        return result;
+      }
+    }
+
+    if (result === undefined) {
+      throw lastError;
+    }
+    return result;
   }
 
   /**
-   * 查询任务状态和结果
+   * 在指定区域中发送任务相关请求，未记录任务归属的 Key 时依次尝试该区域的各个 Key：
+   * 任务由其他 Key 创建时当前 Key 可能返回错误或查不到任务，需要尝试完所有 Key 才能确定
    */
-  async queryTask(taskId: string): Promise<QueryTaskResponse> {
-    return this.concurrencyManager.execute(
-      async () => {
-        if (this.isTestMode) {
-          return this.createMockQueryResponse(taskId);
+  private async sendTaskRequestInRegion<T extends { code?: string; message?: string }>(
+    request: Omit<DashScopeRequest, 'apiKey'>,
+    context: string,
+    taskId: string,
+    endpoint: DashScopeEndpoint
+  ): Promise<T> {
+    const keyPool = endpoint.keyPool;
+    const bound = keyPool.getKeyForTask(taskId);
+    const primary = bound || keyPool.acquire(undefined, false)!;
+    const candidates = bound ? [bound] : [primary, ...keyPool.getOtherKeys(primary)];
+
+    let result: T | undefined;
+    let lastError: unknown;
+    for (const entry of candidates) {
+      try {
+        result = await this.sendWithKey<T>(request, context, endpoint, entry);
+        keyPool.recordSuccess(entry);
+      } catch (error) {
+        keyPool.recordFailure(entry, error);
+        if (bound || request.signal?.aborted) {
+          throw error;
         }
+        lastError = error;
+        Logger.debug(`${context}: API Key ${entry.id} 请求任务 ${taskId} 失败，尝试其他 Key`, error instanceof Error ? error.message : error);
+        continue;
+      }
 
-        return await ErrorHandler.wrapAsync(async () => {
-        const url = `${this.baseUrl}/api/v1/tasks/${taskId}`;
-        Logger.apiCall('GET', url);
+      if (getTaskStatus(result) !== TASK_STATUS.UNKNOWN) {
+        if (!bound) {
+          keyPool.bindTask(taskId, entry);
+        }
+        return result;
+      }
+    }
 
-        const response = await fetch(url, {
-          method: "GET",
-          headers: {
-            "Authorization": `Bearer ${this.apiKey}`
-          }
-        });
+    // 有 Key 请求失败时无法确定任务不存在（可能正是该 Key 创建的任务），报告该错误
+    if (lastError !== undefined) {
+      throw lastError;
+    }
+    return result!;
+  }
+
+  /**
+   * 使用指定 Key 通过传输层发送请求并统一处理 HTTP 错误和业务错误
+   */
+  private async sendWithKey<T extends { code?: string; message?: string }>(
+    request: Omit<DashScopeRequest, 'apiKey'>,
+    context: string,
+    endpoint: DashScopeEndpoint,
+    entry: ApiKeyEntry
+  ): Promise<T> {
+    const url = `${endpoint.transport.baseUrl}${request.path}`;
+    Logger.apiCall(request.method, url);
+
+    endpoint.keyPool.recordRequest(entry);
+    const response = await endpoint.transport.send<T>({ ...request, apiKey: entry.value });
+
+    Logger.apiCall(request.method, url, response.status);
+
+    if (!response.ok) {
+      Logger.error(`${context}失败: ${response.status} ${response.statusText}`, response.text);
+      try {
+        // 4xx 响应通常带有 DashScope 业务错误码，比 HTTP 状态码更准确
+        if (response.status < 500 && response.data?.code) {
+          ErrorHandler.handleTongyiApiError(response.data, context);
+        }
+        ErrorHandler.handleApiError(response, context);
+      } catch (error) {
+        if (error instanceof TongyiError) {
+          error.retryAfterMs = parseRetryAfter(response.headers['retry-after']);
+        }
+        throw error;
+      }
+    }
+
+    const result = response.data;
+    if (!result) {
+      throw new TongyiError('API_ERROR', `${context}: 响应内容无法解析`, response.status, response.text);
+    }
+
+    if (result.code) {
+      Logger.error(`${context}业务错误: ${result.code} - ${result.message}`);
+      ErrorHandler.handleTongyiApiError(result, context);
+    }
 
-        Logger.apiCall('GET', url, response.status);
+    return result;
+  }
+
+  /**
+   * 创建文生图任务
+   */
+  async createTextToImageTask(
+    params: z.infer<typeof TextToImageSchema>,
+    options: CreateTaskOptions = {}
+  ): Promise<CreateTaskResponse> {
+    const model = modelRegistry.getModel(params.model)!;
+    const requestBody = this.buildTextToImageBody(params);
+
+    Logger.debug('创建文生图任务请求', { 
+      model: params.model, 
+      prompt: params.prompt.substring(0, 100) + '...',
+      size: params.size,
+      n: params.n
+    });
+
+    // 合并重复请求，请求的模型不可用时按备用模型链降级
+    return this.coalesceSubmit(model, requestBody, options, () =>
+      this.createWithFallback(model, params, options.allowFallback ?? Config.MODEL_FALLBACK_ENABLE)
+    );
+  }
+
+  /**
+   * 依次尝试请求的模型和兼容本次参数的备用模型，模型被限流、额度用尽或熔断时切换到下一个
+   */
+  private async createWithFallback(
+    requested: ModelDefinition,
+    params: z.infer<typeof TextToImageSchema>,
+    allowFallback: boolean
+  ): Promise<CreateTaskResponse> {
+    const candidates = [
+      requested,
+      ...(allowFallback ? modelRegistry.getFallbackChain(requested.name) : []).filter(model =>
+        params.n <= model.max_n && (!params.size || !modelRegistry.validateSize(model.name, params.size))
+      )
+    ];
+    const attempts: ModelFallback['attempts'] = [];
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          Logger.error(`查询任务失败: ${response.status} ${response.statusText}`, errorText);
-          ErrorHandler.handleApiError(response, '查询任务状态');
+    for (const [index, model] of candidates.entries()) {
+      try {
+        const result = await this.submitTextToImage(model, { ...params, model: model.name });
+        if (attempts.length === 0) {
+          return result;
         }
 
-        const result = await response.json() as QueryTaskResponse;
-        
-        if (result.code) {
-          Logger.error(`查询任务错误: ${result.code} - ${result.message}`);
-          ErrorHandler.handleTongyiApiError(result, '查询任务状态');
+        const fallback: ModelFallback = {
+          requested_model: requested.name,
+          model: model.name,
+          reason: attempts.map(attempt => `${attempt.model} ${FALLBACK_REASONS[attempt.code]}`).join('，'),
+          attempts
+        };
+        Logger.warn(`任务 ${result.output.task_id} 使用备用模型 ${model.name} 创建（${fallback.reason}）`);
+        return { ...result, fallback };
+      } catch (error) {
+        const next = candidates[index + 1];
+        if (!next || !(error instanceof TongyiError && FALLBACK_ERROR_CODES.has(error.code))) {
+          throw error;
         }
+        attempts.push({ model: model.name, code: error.code, message: error.message });
+        Logger.warn(`模型 ${model.name} ${FALLBACK_REASONS[error.code]}，改用备用模型 ${next.name}`);
+      }
+    }
+
+    // candidates 至少包含请求的模型，不会到达这里
+    throw new TongyiError('API_ERROR', '没有可用的模型');
+  }
+
+  /**
+   * 使用指定模型创建文生图任务：通过提交检查（如预算）后，在接口未熔断的区域中提交
+   */
+  private submitTextToImage(
+    model: ModelDefinition,
+    params: z.infer<typeof TextToImageSchema>
+  ): Promise<CreateTaskResponse> {
+    const requestBody = this.buildTextToImageBody(params);
+    const submitRequest: SubmitRequest = { kind: 'text_to_image', model: model.name, imageCount: params.n };
+    return this.guardSubmit(submitRequest, () =>
+      this.createInRegion(model, '创建文生图任务', endpoint => ErrorHandler.wrapAsync(
+        () => this.submitTask(model, async () => {
+          const result = await this.sendRequest<CreateTaskResponse>({
+            method: 'POST',
+            path: model.endpoint,
+            body: requestBody,
+            async: true
+          }, '创建文生图任务', { createsTask: true, endpoint });
+
+          Logger.info(`任务创建成功: ${result.output.task_id}`);
+          return result;
+        }, '创建文生图任务'),
+        '创建文生图任务',
+        2 // 最多重试2次，被限流时重试会等待通道退避结束
+      ))
+    );
+  }
+
+  private buildTextToImageBody(params: z.infer<typeof TextToImageSchema>): Record<string, unknown> {
+    return {
+      model: params.model,
+      input: {
+        prompt: params.prompt,
+        ...(params.negative_prompt && { negative_prompt: params.negative_prompt })
+      },
+      parameters: this.buildModelParameters(params.model, {
+        size: params.size,
+        n: params.n,
+        seed: params.seed,
+        prompt_extend: params.prompt_extend,
+        watermark: params.watermark
+      })
+    };
+  }
+
+  /**
+   * 查询任务状态和结果
+   */
+  async queryTask(taskId: string, signal?: AbortSignal): Promise<QueryTaskResponse> {
+    return this.concurrencyManager.execute(
+      async () => {
+        return await ErrorHandler.wrapAsync(async () => {
+        const result = await this.sendRequest<QueryTaskResponse>({
+          method: 'GET',
+          path: `/api/v1/tasks/${taskId}`,
+          signal
+        }, '查询任务状态', { taskId });
 
         Logger.debug(`任务状态查询: ${taskId} -> ${result.output.task_status}`);
         return result;
@@ -295,335 +755,290 @@ export class TongyiWanxService {
   }
 
   /**
-   * 创建图像编辑任务
+   * 分页查询历史任务列表（默认为最近24小时）
    */
-  async createImageEditTask(params: z.infer<typeof ImageEditSchema>): Promise<CreateTaskResponse> {
+  async listTasks(params: z.infer<typeof ListTasksSchema>): Promise<ListTasksResponse> {
     return this.concurrencyManager.execute(
       async () => {
-        if (this.isTestMode) {
-          return this.createMockImageEditResponse(params);
-        }
-
         return await ErrorHandler.wrapAsync(async () => {
-        const requestBody = {
-          model: params.model,
-          input: {
-            prompt: params.prompt,
-            function: params.function,
-            base_image_url: params.base_image_url,
-            ...(params.mask_image_url && { mask_image_url: params.mask_image_url })
-          },
-          parameters: {
-            n: params.n,
-            ...(params.seed !== undefined && { seed: params.seed }),
-            watermark: params.watermark,
-            // 添加条件性参数
-            ...(params.strength !== undefined && { strength: params.strength }),
-            ...(params.top_scale !== undefined && { top_scale: params.top_scale }),
-            ...(params.bottom_scale !== undefined && { bottom_scale: params.bottom_scale }),
-            ...(params.left_scale !== undefined && { left_scale: params.left_scale }),
-            ...(params.right_scale !== undefined && { right_scale: params.right_scale }),
-            ...(params.upscale_factor !== undefined && { upscale_factor: params.upscale_factor }),
-            ...(params.is_sketch !== undefined && { is_sketch: params.is_sketch })
+        const result = await this.sendRequest<ListTasksResponse>({
+          method: 'GET',
+          path: '/api/v1/tasks',
+          query: {
+            start_time: params.start_time?.replace(/\D/g, ''),
+            end_time: params.end_time?.replace(/\D/g, ''),
+            model_name: params.model_name,
+            status: params.status,
+            page_no: params.page_no,
+            page_size: params.page_size
           }
-        };
+        }, '查询任务列表', { rotate: false });
 
-        Logger.debug('创建图像编辑任务请求', { 
-          model: params.model, 
-          function: params.function,
-          prompt: params.prompt.substring(0, 100) + '...',
-          n: params.n
-        });
-
-        const url = `${this.baseUrl}/api/v1/services/aigc/image2image/image-synthesis`;
-        Logger.apiCall('POST', url);
-
-        const response = await fetch(url, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${this.apiKey}`,
-            "X-DashScope-Async": "enable"
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        Logger.apiCall('POST', url, response.status);
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          Logger.error(`API请求失败: ${response.status} ${response.statusText}`, errorText);
-          ErrorHandler.handleApiError(response, '创建图像编辑任务');
-        }
+        const data = (result.data || []).map(task => ({
+          ...task,
+          // 列表接口只在 user_api_unique_key 末段携带模型名
+          model_name: task.model_name || task.user_api_unique_key?.split(':').pop()
+        }));
 
-        const result = await response.json() as CreateTaskResponse;
-        
-        if (result.code) {
-          Logger.error(`API业务错误: ${result.code} - ${result.message}`);
-          ErrorHandler.handleTongyiApiError(result, '创建图像编辑任务');
-        }
+        Logger.debug(`任务列表查询: 第${result.page_no}页，共${result.total}个任务`);
+        return { ...result, data };
 
-        Logger.info(`图像编辑任务创建成功: ${result.output.task_id}`);
-        return result;
-      }, '创建图像编辑任务', 2); // 最多重试2次
-    }, RequestPriority.HIGH, '创建图像编辑任务');
+      }, '查询任务列表', 3);
+    }, RequestPriority.LOW, '查询任务列表');
   }
 
   /**
-   * 等待任务完成
+   * 创建图像编辑任务
    */
-  async waitForTaskCompletion(
-    taskId: string, 
-    maxWaitTime: number = Config.MAX_WAIT_TIME, 
-    pollInterval: number = Config.POLL_INTERVAL
-  ): Promise<QueryTaskResponse> {
-    return await withPerformanceMonitoring(async () => {
-      const startTime = Date.now();
-      let lastStatus = '';
-      
-      Logger.info(`开始等待任务完成: ${taskId}, 最大等待时间: ${maxWaitTime}ms`);
-      
-      while (Date.now() - startTime < maxWaitTime) {
-        const result = await this.queryTask(taskId);
-        const currentStatus = result.output.task_status;
-        
-        // 只在状态变化时记录日志
-        if (currentStatus !== lastStatus) {
-          Logger.info(`任务 ${taskId} 状态变更: ${lastStatus} -> ${currentStatus}`);
-          lastStatus = currentStatus;
-        }
-        
-        if (currentStatus === TASK_STATUS.SUCCEEDED || 
-            currentStatus === TASK_STATUS.FAILED ||
-            currentStatus === TASK_STATUS.CANCELED) {
-          Logger.info(`任务 ${taskId} 完成，最终状态: ${currentStatus}`);
+  async createImageEditTask(
+    params: ImageEditParams,
+    options: CreateTaskOptions = {}
+  ): Promise<CreateTaskResponse> {
+    const model = modelRegistry.getModel(params.model)!;
+    const { mask_image_url, ...functionParameters } = pickImageEditParameters(params);
+    const requestBody = {
+      model: params.model,
+      input: {
+        prompt: params.prompt,
+        function: params.function,
+        base_image_url: params.base_image_url,
+        ...(typeof mask_image_url === 'string' && { mask_image_url })
+      },
+      parameters: this.buildModelParameters(params.model, {
+        n: params.n,
+        seed: params.seed,
+        watermark: params.watermark,
+        ...functionParameters
+      })
+    };
+
+    Logger.debug('创建图像编辑任务请求', { 
+      model: params.model, 
+      function: params.function,
+      prompt: params.prompt.substring(0, 100) + '...',
+      n: params.n
+    });
+
+    // 签名 URL 带有过期时间和签名，去重时替换为调用方的原始输入
+    const fingerprintBody = options.originalInputs
+      ? { ...requestBody, input: { ...requestBody.input, ...options.originalInputs } }
+      : requestBody;
+
+    const submitRequest: SubmitRequest = { kind: 'image_edit', model: params.model, imageCount: params.n };
+    return this.coalesceSubmit(model, fingerprintBody, options, () => this.guardSubmit(submitRequest, () =>
+      this.createInRegion(model, '创建图像编辑任务', endpoint => ErrorHandler.wrapAsync(
+        () => this.submitTask(model, async () => {
+          const result = await this.sendRequest<CreateTaskResponse>({
+            method: 'POST',
+            path: model.endpoint,
+            body: requestBody,
+            async: true
+          }, '创建图像编辑任务', { createsTask: true, endpoint });
+
+          Logger.info(`图像编辑任务创建成功: ${result.output.task_id}`);
           return result;
+        }, '创建图像编辑任务'),
+        '创建图像编辑任务',
+        2 // 最多重试2次
+      ))
+    ));
+  }
+
+  /**
+   * 按区域顺序创建任务：在第一个该接口未熔断的区域中提交，区域熔断时切换到下一个健康的区域
+   */
+  private async createInRegion(
+    model: ModelDefinition,
+    context: string,
+    create: (endpoint: DashScopeEndpoint) => Promise<CreateTaskResponse>
+  ): Promise<CreateTaskResponse> {
+    let lastError: unknown;
+    for (const endpoint of this.endpoints.getCandidates(model.endpoint)) {
+      try {
+        const result = await create(endpoint);
+        this.polling.trackTask(result.output.task_id, model.name);
+        return result;
+      } catch (error) {
+        if (!(error instanceof TongyiError && error.code === 'CIRCUIT_BREAKER_OPEN')) {
+          throw error;
         }
-        
-        // 等待下一次轮询
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        lastError = error;
+        Logger.warn(`${context}: 区域 ${endpoint.name} 已熔断，尝试下一个区域`);
       }
-      
-      const elapsed = Date.now() - startTime;
-      Logger.warn(`任务 ${taskId} 等待超时，已等待: ${elapsed}ms`);
-      
-      throw new TongyiError(
-        'TIMEOUT_ERROR',
-        `任务 ${taskId} 等待超时，请稍后手动查询任务状态`,
-        undefined,
-        { taskId, elapsed, maxWaitTime }
-      );
-    }, `等待任务完成-${taskId}`)();
+    }
+    throw lastError;
   }
 
   /**
-   * 测试模式：创建模拟响应
+   * 设置任务提交检查，在每次创建任务前调用
    */
-  private createMockResponse(_params: any): CreateTaskResponse {
-    const mockTaskId = `mock_task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    Logger.info(`测试模式：创建模拟任务 ${mockTaskId}`);
-    
-    return {
-      output: {
-        task_id: mockTaskId,
-        task_status: "PENDING"
-      },
-      request_id: `mock_request_${Date.now()}`
-    };
+  setSubmitGuard(guard: SubmitGuard | undefined): void {
+    this.submitGuard = guard;
   }
 
   /**
-   * 测试模式：创建模拟图像编辑响应
+   * 合并重复的任务提交
+   * 请求内容完全相同的并发请求共享同一次提交；携带幂等键的请求在幂等键有效期内返回同一个任务，
+   * 幂等键用于不同的请求内容时报错，提交失败时释放幂等键以便重试
+   * @param requestBody 用于比较请求内容的请求体，其中的图像输入应为解析前的原始值
    */
-  private createMockImageEditResponse(_params: any): CreateTaskResponse {
-    const mockTaskId = `mock_edit_task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    Logger.info(`测试模式：创建模拟图像编辑任务 ${mockTaskId}`);
-    
-    return {
-      output: {
-        task_id: mockTaskId,
-        task_status: "PENDING"
-      },
-      request_id: `mock_edit_request_${Date.now()}`
-    };
+  private coalesceSubmit(
+    model: ModelDefinition,
+    requestBody: Record<string, unknown>,
+    options: CreateTaskOptions,
+    create: () => Promise<CreateTaskResponse>
+  ): Promise<CreateTaskResponse> {
+    const fingerprint = JSON.stringify({ endpoint: model.endpoint, body: requestBody });
+    const key = options.idempotencyKey;
+
+    if (key) {
+      const now = Date.now();
+      for (const [existingKey, entry] of this.idempotentSubmits) {
+        if (entry.expiresAt <= now) {
+          this.idempotentSubmits.delete(existingKey);
+        }
+      }
+
+      const existing = this.idempotentSubmits.get(key);
+      if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+          throw new TongyiError('VALIDATION_ERROR', `idempotency_key "${key}" 已用于参数不同的请求`);
+        }
+        Logger.info(`幂等键 ${key} 已提交过，返回同一个任务`);
+        return existing.result;
+      }
+    }
+
+    let result = this.inFlightSubmits.get(fingerprint);
+    if (result) {
+      Logger.info('合并相同的进行中任务提交');
+    } else {
+      const submitted = create().finally(() => this.inFlightSubmits.delete(fingerprint));
+      this.inFlightSubmits.set(fingerprint, submitted);
+      result = submitted;
+    }
+
+    if (key) {
+      const entry = { fingerprint, result, expiresAt: Date.now() + IDEMPOTENCY_TTL_MS };
+      this.idempotentSubmits.set(key, entry);
+      result.catch(() => {
+        if (this.idempotentSubmits.get(key) === entry) {
+          this.idempotentSubmits.delete(key);
+        }
+      });
+    }
+
+    return result;
   }
 
   /**
-   * 测试模式：创建模拟查询响应
+   * 经过提交检查后创建任务：检查不通过时不会发送请求，创建失败时释放预留的额度
    */
-  private createMockQueryResponse(taskId: string): QueryTaskResponse {
-    // 模拟任务进度：PENDING -> RUNNING -> SUCCEEDED
-    const now = Date.now();
-    const taskAge = now - parseInt(taskId.split('_')[2] || '0');
-    
-    let status: string = TASK_STATUS.PENDING;
-    let results: any[] | undefined = undefined;
-    
-    if (taskAge > 10000) { // 10秒后完成
-      status = TASK_STATUS.SUCCEEDED;
-      results = [{
-        url: 'https://via.placeholder.com/1024x1024/4CAF50/FFFFFF?text=Mock+Generated+Image',
-        actual_prompt: '测试模式生成的模拟图片'
-      }];
-    } else if (taskAge > 5000) { // 5秒后开始运行
-      status = TASK_STATUS.RUNNING;
+  private async guardSubmit(
+    request: SubmitRequest,
+    create: () => Promise<CreateTaskResponse>
+  ): Promise<CreateTaskResponse> {
+    const reservation = this.submitGuard?.(request);
+    try {
+      const result = await create();
+      reservation?.commit(result.output.task_id);
+      return result;
+    } catch (error) {
+      reservation?.release();
+      throw error;
     }
+  }
 
-    Logger.debug(`测试模式：任务 ${taskId} 状态 ${status}`);
-    
-    return {
-      output: {
-        task_id: taskId,
-        task_status: status,
-        submit_time: new Date(now - taskAge).toISOString(),
-        ...(status === TASK_STATUS.SUCCEEDED && {
-          end_time: new Date().toISOString(),
-          results
-        })
-      },
-      request_id: `mock_query_${now}`,
-      ...(status === TASK_STATUS.SUCCEEDED && {
-        usage: { image_count: 1 }
-      })
-    };
+  /**
+   * 在模型和接口对应的限流通道中提交任务
+   * 先等待令牌再占用并发名额，避免限流等待阻塞查询等其他请求
+   */
+  private submitTask<T>(model: ModelDefinition, operation: () => Promise<T>, operationName: string): Promise<T> {
+    return this.rateLimiter.schedule(
+      `${model.name}@${model.endpoint}`,
+      () => this.concurrencyManager.execute(operation, RequestPriority.HIGH, operationName),
+      model.rate_limit
+    );
   }
 
   /**
-   * 获取支持的模型信息
+   * 取消任务（仅 PENDING 状态的任务可被远端取消）
    */
-  getSupportedModels(): Array<{
-    name: string;
-    description: string;
-    features: string[];
-    type: string;
-  }> {
-    return [
-      {
-        name: "wanx2.1-t2i-turbo",
-        description: "通义万相2.1极速版",
-        features: ["生成速度快", "适合快速预览", "成本较低"],
-        type: "text-to-image"
-      },
-      {
-        name: "wanx2.1-t2i-plus",
-        description: "通义万相2.1增强版",
-        features: ["图像质量高", "细节丰富", "支持复杂场景"],
-        type: "text-to-image"
-      },
-      {
-        name: "wanx2.0-t2i-turbo",
-        description: "通义万相2.0极速版",
-        features: ["性价比高", "稳定可靠", "基础功能完整"],
-        type: "text-to-image"
-      },
-      {
-        name: "wanx2.1-imageedit",
-        description: "通义万相2.1图像编辑",
-        features: [
-          "全局/局部风格化", 
-          "指令编辑/局部重绘", 
-          "去水印/扩图", 
-          "图像超分/上色",
-          "线稿生图/卡通形象生图"
-        ],
-        type: "image-to-image"
+  async cancelTask(taskId: string): Promise<{ task_id: string; request_id: string }> {
+    return this.concurrencyManager.execute(
+      async () => {
+        const result = await this.sendRequest<{ request_id: string; code?: string; message?: string }>({
+          method: 'POST',
+          path: `/api/v1/tasks/${taskId}/cancel`
+        }, '取消任务', { taskId });
+
+        Logger.info(`任务已取消: ${taskId}`);
+        this.taskWatcher.markCancelled(taskId);
+
+        return {
+          task_id: taskId,
+          request_id: result.request_id
+        };
+      }, RequestPriority.HIGH, `取消任务-${taskId}`);
+  }
+
+  /**
+   * 调用方放弃等待时尝试取消远端任务（仅排队中的任务可取消，失败时忽略）
+   */
+  private cancelAbandonedTask(taskId: string): void {
+    this.cancelTask(taskId)
+      .then(() => Logger.info(`调用方已取消，远端任务已取消: ${taskId}`))
+      .catch(error => {
+        Logger.debug(`远端任务无法取消（可能已开始执行）: ${taskId}`, error instanceof Error ? error.message : error);
+      });
+  }
+
+  /**
+   * 等待任务完成，轮询间隔自适应（pollInterval 为初始间隔）
+   * 同一任务的多个调用方共享任务监视器的状态查询
+   */
+  async waitForTaskCompletion(
+    taskId: string, 
+    maxWaitTime: number = Config.MAX_WAIT_TIME, 
+    pollInterval: number = Config.POLL_INTERVAL,
+    options: WaitForTaskOptions = {}
+  ): Promise<QueryTaskResponse> {
+    return await withPerformanceMonitoring(async () => {
+      try {
+        return await this.taskWatcher.watch(taskId, maxWaitTime, pollInterval, options);
+      } catch (error) {
+        // 没有其他调用方在等待该任务时，才取消远端任务
+        if (options.signal?.aborted && !this.taskWatcher.isWatching(taskId)) {
+          this.cancelAbandonedTask(taskId);
+        }
+        throw error;
       }
-    ];
+    }, `等待任务完成-${taskId}`)();
+  }
+
+  /**
+   * 获取支持的模型信息（来自模型注册表）
+   */
+  getSupportedModels(): Array<ModelDefinition & { size_rule?: string }> {
+    return modelRegistry.describe();
+  }
+
+  /**
+   * 只保留模型支持且已设置的 parameters 字段
+   */
+  private buildModelParameters(model: string, parameters: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(parameters).filter(([key, value]) =>
+        value !== undefined && modelRegistry.supportsParameter(model, key)
+      )
+    );
   }
 
   /**
    * 获取图像编辑功能详情
    */
-  getImageEditFunctions(): Array<{
-    name: string;
-    displayName: string;
-    description: string;
-    usage: string;
-    parameters: string[];
-    examples: string;
-  }> {
-    return [
-      {
-        name: IMAGE_EDIT_FUNCTIONS.STYLIZATION_ALL,
-        displayName: "全局风格化",
-        description: "对整张图像进行风格迁移",
-        usage: "转换成法国绘本风格/金箔艺术风格",
-        parameters: ["strength"],
-        examples: "转换成法国绘本风格"
-      },
-      {
-        name: IMAGE_EDIT_FUNCTIONS.STYLIZATION_LOCAL,
-        displayName: "局部风格化", 
-        description: "对图像局部区域进行风格迁移",
-        usage: "支持8种风格：冰雕、云朵、花灯、木板、青花瓷、毛茸茸、毛线、气球",
-        parameters: [],
-        examples: "把房子变成木板风格"
-      },
-      {
-        name: IMAGE_EDIT_FUNCTIONS.DESCRIPTION_EDIT,
-        displayName: "指令编辑",
-        description: "通过指令进行图像编辑，无需指定区域",
-        usage: "适合全局调整或粗略修改",
-        parameters: ["strength"],
-        examples: "把女孩的头发修改为红色"
-      },
-      {
-        name: IMAGE_EDIT_FUNCTIONS.DESCRIPTION_EDIT_WITH_MASK,
-        displayName: "局部重绘",
-        description: "对指定区域进行精确编辑",
-        usage: "需要提供遮罩图像，白色区域为编辑区域",
-        parameters: ["mask_image_url"],
-        examples: "一只陶瓷兔子抱着一朵陶瓷花"
-      },
-      {
-        name: IMAGE_EDIT_FUNCTIONS.REMOVE_WATERMARK,
-        displayName: "去文字水印",
-        description: "去除图像中的文字和水印",
-        usage: "支持中英文文字去除",
-        parameters: [],
-        examples: "去除图像中的文字"
-      },
-      {
-        name: IMAGE_EDIT_FUNCTIONS.EXPAND,
-        displayName: "扩图",
-        description: "在上下左右四个方向按比例扩展图像",
-        usage: "可分别设置各方向的扩展比例",
-        parameters: ["top_scale", "bottom_scale", "left_scale", "right_scale"],
-        examples: "一位绿色仙子"
-      },
-      {
-        name: IMAGE_EDIT_FUNCTIONS.SUPER_RESOLUTION,
-        displayName: "图像超分",
-        description: "高清放大，提升图像分辨率",
-        usage: "可设置放大倍数1-4倍",
-        parameters: ["upscale_factor"],
-        examples: "图像超分"
-      },
-      {
-        name: IMAGE_EDIT_FUNCTIONS.COLORIZATION,
-        displayName: "图像上色",
-        description: "将黑白/灰度图像转为彩色",
-        usage: "可在提示词中指定颜色",
-        parameters: [],
-        examples: "蓝色背景，黄色的叶子"
-      },
-      {
-        name: IMAGE_EDIT_FUNCTIONS.DOODLE,
-        displayName: "线稿生图",
-        description: "基于线稿生成图像",
-        usage: "可从RGB图像提取线稿或直接使用线稿图像",
-        parameters: ["is_sketch"],
-        examples: "北欧极简风格的客厅"
-      },
-      {
-        name: IMAGE_EDIT_FUNCTIONS.CONTROL_CARTOON_FEATURE,
-        displayName: "参考卡通形象生图",
-        description: "基于卡通形象生成新场景",
-        usage: "适合卡通IP开发和儿童教育",
-        parameters: [],
-        examples: "卡通形象小心翼翼地探出头，窥视着房间内一颗璀璨的蓝色宝石"
-      }
-    ];
+  getImageEditFunctions(): ReturnType<typeof describeImageEditFunctions> {
+    return describeImageEditFunctions();
   }
 
   /**
@@ -632,20 +1047,70 @@ export class TongyiWanxService {
   getServiceStatus(): {
     isTestMode: boolean;
     hasApiKey: boolean;
+    baseUrl: string;
     concurrencyStatus: any;
+    endpoints: Array<{
+      name: string;
+      baseUrl: string;
+      primary: boolean;
+      healthy: boolean;
+      apiKeys: ReturnType<ApiKeyPool['getStatus']>;
+    }>;
+    rateLimits: RateLimitLaneStatus[];
+    circuitBreakers: CircuitBreakerStatus[];
+    taskWatcher: TaskWatcherStatus;
   } {
     return {
       isTestMode: this.isTestMode,
-      hasApiKey: !!this.apiKey,
-      concurrencyStatus: this.concurrencyManager.getStatus()
+      hasApiKey: this.endpoints.getEndpoints().some(endpoint => endpoint.keyPool.hasApiKey),
+      baseUrl: this.endpoints.primary.transport.baseUrl,
+      concurrencyStatus: this.concurrencyManager.getStatus(),
+      endpoints: this.endpoints.getEndpoints().map(endpoint => ({
+        name: endpoint.name,
+        baseUrl: endpoint.transport.baseUrl,
+        primary: endpoint === this.endpoints.primary,
+        healthy: this.endpoints.isHealthy(endpoint),
+        apiKeys: endpoint.keyPool.getStatus()
+      })),
+      rateLimits: this.rateLimiter.getStatus(),
+      circuitBreakers: this.endpoints.getCircuitBreakerStatus(),
+      taskWatcher: this.taskWatcher.getStatus()
     };
   }
 
+  /**
+   * 手动重置熔断器，未指定名称时重置全部，返回已重置的熔断器名称
+   */
+  resetCircuitBreakers(name?: string): string[] {
+    return this.endpoints.resetCircuitBreakers(name);
+  }
+
+  /**
+   * 获取创建该任务的区域名称，用于写入任务日志
+   */
+  getTaskRegion(taskId: string): string | undefined {
+    return this.endpoints.getEndpointForTask(taskId)?.name;
+  }
+
+  /**
+   * 从任务日志恢复任务所在的区域，重启后查询和取消任务直接发往该区域
+   * 区域已不在配置中或任务已超过结果有效期时忽略
+   */
+  restoreTaskRegion(taskId: string, region: string, createdAt: number): void {
+    const endpoint = this.endpoints.getEndpoint(region);
+    if (!endpoint) {
+      Logger.debug(`任务 ${taskId} 的区域 ${region} 已不在配置中，查询时将依次尝试各区域`);
+      return;
+    }
+    this.endpoints.bindTask(taskId, endpoint, createdAt);
+  }
+
   /**
    * 销毁服务
    */
   destroy(): void {
     // 清理并发管理器的定时器等资源
+    this.taskWatcher.destroy();
     Logger.info('通义万相服务已销毁');
   }
 }
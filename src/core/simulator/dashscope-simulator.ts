@@ -0,0 +1,534 @@
+/**
+ * 本地 DashScope 模拟器
+ * 在本地 HTTP 端口上模拟通义万相异步任务接口，供离线开发和 CI 端到端运行
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createHash, randomUUID } from 'crypto';
+import { Config, Logger, encodePng, PngColorType } from '../../infrastructure/index.js';
+
+/**
+ * 模拟器配置
+ */
+export interface SimulatorOptions {
+  /** 监听地址，与 DASHSCOPE_BASE_URL 保持一致 */
+  baseUrl: string;
+  /** 任务排队时长(ms) */
+  pendingMs: number;
+  /** 任务运行时长(ms) */
+  runningMs: number;
+  /** 任务随机失败概率 0-1 */
+  failureRate: number;
+  /** 随机失败时使用的错误码 */
+  failureCode: string;
+  /** 每个模型每秒允许提交的任务数，超出时返回 Throttling.RateQuota，0 表示不限制 */
+  submitQps: number;
+}
+
+/**
+ * 模拟的任务记录
+ */
+interface SimulatedTask {
+  taskId: string;
+  /** 创建任务的 API Key，其他 Key 查询不到该任务（模拟不同工作空间） */
+  apiKey: string;
+  model: string;
+  kind: 'text2image' | 'image2image';
+  prompt: string;
+  editFunction?: string;
+  width: number;
+  height: number;
+  n: number;
+  createdAt: number;
+  failureCode?: string;
+  canceledAt?: number;
+}
+
+/**
+ * 可模拟的 DashScope 错误码
+ */
+const SIMULATED_ERRORS: Record<string, { status: number; message: string }> = {
+  'InvalidApiKey': { status: 401, message: 'Invalid API-key provided.' },
+  'InvalidParameter': { status: 400, message: 'The request parameter is invalid.' },
+  'DataInspectionFailed': { status: 400, message: 'Input data may contain inappropriate content.' },
+  'InvalidURL': { status: 400, message: 'Download the media resource timed out during the data inspection process.' },
+  'Arrearage': { status: 400, message: 'Access denied, please make sure your account is in good standing.' },
+  'Throttling.RateQuota': { status: 429, message: 'Requests rate limit exceeded, please try again later.' },
+  'Throttling.AllocationQuota': { status: 429, message: 'Free allocated quota exceeded.' },
+  'UnsupportedOperation': { status: 400, message: 'Failed to cancel the task, please confirm if the task is in PENDING status.' },
+  'InternalError': { status: 500, message: 'An internal error has occured, please try again later.' },
+  'InternalError.Algo': { status: 500, message: 'Algorithm process error.' }
+};
+
+/**
+ * 提示词中的模拟指令，如 [sim:submit=Arrearage] 或 [sim:fail=DataInspectionFailed]
+ * API Key 中也可携带 submit 指令，模拟某个 Key 欠费或被限流
+ */
+const DIRECTIVE_PATTERN = /\[sim:(submit|fail)=([\w.]+)\]/g;
+
+/**
+ * DashScope 模拟器
+ */
+export class DashScopeSimulator {
+  private server: Server | null = null;
+  private readonly tasks: Map<string, SimulatedTask> = new Map();
+  private readonly submitTimes: Map<string, number[]> = new Map();
+  private readonly options: SimulatorOptions;
+
+  constructor(options: Partial<SimulatorOptions> = {}) {
+    this.options = {
+      baseUrl: Config.BASE_URL,
+      pendingMs: Config.SIMULATOR_PENDING_MS,
+      runningMs: Config.SIMULATOR_RUNNING_MS,
+      failureRate: Config.SIMULATOR_FAILURE_RATE,
+      failureCode: Config.SIMULATOR_FAILURE_CODE,
+      submitQps: Config.SIMULATOR_SUBMIT_QPS,
+      ...options
+    };
+  }
+
+  /**
+   * 启动模拟器，监听 baseUrl 对应的主机和端口
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const url = new URL(this.options.baseUrl);
+    const port = parseInt(url.port || '80');
+    const host = url.hostname;
+
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        Logger.error('模拟器请求处理失败', error);
+        this.sendJson(res, 500, { code: 'InternalError', message: String(error) });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    Logger.info(`DashScope 模拟器已启动: ${this.options.baseUrl}`);
+  }
+
+  /**
+   * 停止模拟器
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    Logger.info('DashScope 模拟器已停止');
+  }
+
+  /**
+   * 获取模拟器状态
+   */
+  getStatus(): {
+    running: boolean;
+    baseUrl: string;
+    totalTasks: number;
+    options: SimulatorOptions;
+  } {
+    return {
+      running: this.server !== null,
+      baseUrl: this.options.baseUrl,
+      totalTasks: this.tasks.size,
+      options: this.options
+    };
+  }
+
+  /**
+   * 路由分发
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.options.baseUrl);
+    const path = url.pathname.replace(/\/+$/, '');
+    Logger.debug(`模拟器请求: ${req.method} ${path}`);
+
+    const fileMatch = path.match(/^\/files\/([\w-]+)\/(\d+)\.png$/);
+    if (req.method === 'GET' && fileMatch) {
+      this.serveImage(res, fileMatch[1], parseInt(fileMatch[2]));
+      return;
+    }
+
+    // 测试模式下没有 API 密钥，只要求携带 Bearer 认证头
+    const authorization = req.headers.authorization || '';
+    if (!/^Bearer\b/.test(authorization)) {
+      this.sendError(res, 'InvalidApiKey');
+      return;
+    }
+    const apiKey = authorization.replace(/^Bearer\s*/, '');
+
+    if (req.method === 'POST' && path === '/api/v1/services/aigc/text2image/image-synthesis') {
+      this.createTask(req, res, apiKey, 'text2image', await this.readJson(req));
+      return;
+    }
+
+    if (req.method === 'POST' && path === '/api/v1/services/aigc/image2image/image-synthesis') {
+      this.createTask(req, res, apiKey, 'image2image', await this.readJson(req));
+      return;
+    }
+
+    if (req.method === 'GET' && path === '/api/v1/tasks') {
+      this.listTasks(res, apiKey, url.searchParams);
+      return;
+    }
+
+    const taskMatch = path.match(/^\/api\/v1\/tasks\/([\w-]+)$/);
+    if (req.method === 'GET' && taskMatch) {
+      this.queryTask(res, apiKey, taskMatch[1]);
+      return;
+    }
+
+    const cancelMatch = path.match(/^\/api\/v1\/tasks\/([\w-]+)\/cancel$/);
+    if (req.method === 'POST' && cancelMatch) {
+      this.cancelTask(res, apiKey, cancelMatch[1]);
+      return;
+    }
+
+    this.sendJson(res, 404, {
+      request_id: randomUUID(),
+      code: 'NotFound',
+      message: `Not found: ${req.method} ${path}`
+    });
+  }
+
+  /**
+   * 创建模拟任务
+   */
+  private createTask(
+    req: IncomingMessage,
+    res: ServerResponse,
+    apiKey: string,
+    kind: SimulatedTask['kind'],
+    body: any
+  ): void {
+    if (req.headers['x-dashscope-async'] !== 'enable') {
+      this.sendJson(res, 403, {
+        request_id: randomUUID(),
+        code: 'AccessDenied',
+        message: 'current user api does not support synchronous calls'
+      });
+      return;
+    }
+
+    const prompt: string = body?.input?.prompt;
+    if (!body?.model || typeof prompt !== 'string' || !prompt.trim()) {
+      this.sendError(res, 'InvalidParameter', 'Field required: model, input.prompt');
+      return;
+    }
+
+    if (this.isSubmitThrottled(body.model)) {
+      this.sendError(res, 'Throttling.RateQuota');
+      return;
+    }
+
+    const directives = this.parseDirectives(prompt);
+    const keySubmit = this.parseDirectives(apiKey).submit;
+    if (keySubmit || directives.submit) {
+      this.sendError(res, (keySubmit || directives.submit)!);
+      return;
+    }
+
+    const [width, height] = String(body.parameters?.size || '1024*1024').split('*').map(Number);
+    const randomFailure = Math.random() < this.options.failureRate ? this.options.failureCode : undefined;
+
+    const task: SimulatedTask = {
+      taskId: randomUUID(),
+      apiKey,
+      model: body.model,
+      kind,
+      prompt,
+      editFunction: body.input?.function,
+      width: width || 1024,
+      height: height || 1024,
+      n: Math.min(Math.max(body.parameters?.n || 1, 1), 4),
+      createdAt: Date.now(),
+      failureCode: directives.fail || randomFailure
+    };
+    this.tasks.set(task.taskId, task);
+
+    Logger.debug(`模拟器创建任务: ${task.taskId} (${kind}, ${task.model})`);
+
+    this.sendJson(res, 200, {
+      request_id: randomUUID(),
+      output: {
+        task_id: task.taskId,
+        task_status: 'PENDING'
+      }
+    });
+  }
+
+  /**
+   * 查询模拟任务
+   */
+  private queryTask(res: ServerResponse, apiKey: string, taskId: string): void {
+    const task = this.getTask(apiKey, taskId);
+    if (!task) {
+      this.sendJson(res, 200, {
+        request_id: randomUUID(),
+        output: {
+          task_id: taskId,
+          task_status: 'UNKNOWN'
+        }
+      });
+      return;
+    }
+
+    const status = this.getTaskStatus(task);
+    const scheduledAt = task.createdAt + this.options.pendingMs;
+    const endAt = scheduledAt + this.options.runningMs;
+
+    const output: Record<string, any> = {
+      task_id: task.taskId,
+      task_status: status,
+      submit_time: this.formatTime(task.createdAt)
+    };
+
+    if (status !== 'PENDING' && status !== 'CANCELED') {
+      output.scheduled_time = this.formatTime(scheduledAt);
+    }
+
+    if (status === 'SUCCEEDED') {
+      output.end_time = this.formatTime(endAt);
+      output.results = Array.from({ length: task.n }, (_, index) => ({
+        orig_prompt: task.prompt,
+        actual_prompt: task.kind === 'text2image' ? `${task.prompt}（模拟器扩写）` : undefined,
+        url: `${this.options.baseUrl.replace(/\/+$/, '')}/files/${task.taskId}/${index}.png`
+      }));
+      output.task_metrics = { TOTAL: task.n, SUCCEEDED: task.n, FAILED: 0 };
+    } else if (status === 'CANCELED') {
+      output.end_time = this.formatTime(task.canceledAt!);
+    } else if (status === 'FAILED') {
+      const error = SIMULATED_ERRORS[task.failureCode!] || SIMULATED_ERRORS['InternalError'];
+      output.end_time = this.formatTime(endAt);
+      output.code = task.failureCode;
+      output.message = error.message;
+      output.task_metrics = { TOTAL: task.n, SUCCEEDED: 0, FAILED: task.n };
+    }
+
+    this.sendJson(res, 200, {
+      request_id: randomUUID(),
+      output,
+      ...(status === 'SUCCEEDED' && { usage: { image_count: task.n } })
+    });
+  }
+
+  /**
+   * 分页列出模拟任务，支持时间范围、模型和状态过滤（默认最近24小时）
+   */
+  private listTasks(res: ServerResponse, apiKey: string, params: URLSearchParams): void {
+    const now = Date.now();
+    const startTime = this.parseListTime(params.get('start_time')) ?? now - 24 * 60 * 60 * 1000;
+    const endTime = this.parseListTime(params.get('end_time')) ?? now;
+    const modelName = params.get('model_name');
+    const status = params.get('status');
+    const pageNo = Math.max(parseInt(params.get('page_no') || '1') || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(params.get('page_size') || '10') || 10, 1), 100);
+
+    const matched = Array.from(this.tasks.values())
+      .filter(task => task.apiKey === apiKey)
+      .filter(task => task.createdAt >= startTime && task.createdAt <= endTime)
+      .filter(task => !modelName || task.model === modelName)
+      .filter(task => !status || this.getTaskStatus(task) === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const data = matched
+      .slice((pageNo - 1) * pageSize, pageNo * pageSize)
+      .map(task => {
+        const taskStatus = this.getTaskStatus(task);
+        const endAt = task.canceledAt ?? task.createdAt + this.options.pendingMs + this.options.runningMs;
+        return {
+          task_id: task.taskId,
+          status: taskStatus,
+          gmt_create: task.createdAt,
+          start_time: this.formatTime(task.createdAt),
+          ...(['SUCCEEDED', 'FAILED', 'CANCELED'].includes(taskStatus) && { end_time: this.formatTime(endAt) }),
+          region: 'cn-beijing',
+          request_id: randomUUID(),
+          user_api_unique_key: `apikey:v1:aigc:${task.kind}:image-synthesis:${task.model}`
+        };
+      });
+
+    this.sendJson(res, 200, {
+      request_id: randomUUID(),
+      data,
+      page_no: pageNo,
+      page_size: pageSize,
+      total: matched.length,
+      total_page: Math.ceil(matched.length / pageSize)
+    });
+  }
+
+  /**
+   * 解析任务列表时间参数 YYYYMMDDhhmmss（与 formatTime 一致按 UTC 处理）
+   */
+  private parseListTime(value: string | null): number | undefined {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+    if (!match) {
+      return undefined;
+    }
+    const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+    return Date.UTC(year, month - 1, day, hour, minute, second);
+  }
+
+  /**
+   * 取消模拟任务，只有 PENDING 状态可取消
+   */
+  private cancelTask(res: ServerResponse, apiKey: string, taskId: string): void {
+    const task = this.getTask(apiKey, taskId);
+    if (!task || this.getTaskStatus(task) !== 'PENDING') {
+      this.sendError(res, 'UnsupportedOperation');
+      return;
+    }
+
+    task.canceledAt = Date.now();
+    Logger.debug(`模拟器取消任务: ${taskId}`);
+    this.sendJson(res, 200, { request_id: randomUUID() });
+  }
+
+  /**
+   * 按模型统计最近1秒内的提交次数，超过 submitQps 时限流
+   */
+  private isSubmitThrottled(model: string): boolean {
+    if (this.options.submitQps <= 0) {
+      return false;
+    }
+
+    const now = Date.now();
+    const recent = (this.submitTimes.get(model) || []).filter(time => now - time < 1000);
+    if (recent.length >= this.options.submitQps) {
+      this.submitTimes.set(model, recent);
+      return true;
+    }
+
+    recent.push(now);
+    this.submitTimes.set(model, recent);
+    return false;
+  }
+
+  /**
+   * 获取指定 Key 创建的任务
+   */
+  private getTask(apiKey: string, taskId: string): SimulatedTask | undefined {
+    const task = this.tasks.get(taskId);
+    return task?.apiKey === apiKey ? task : undefined;
+  }
+
+  /**
+   * 根据时间推导任务状态：PENDING -> RUNNING -> SUCCEEDED/FAILED，或已取消
+   */
+  private getTaskStatus(task: SimulatedTask): string {
+    if (task.canceledAt) {
+      return 'CANCELED';
+    }
+    const age = Date.now() - task.createdAt;
+    if (age < this.options.pendingMs) {
+      return 'PENDING';
+    }
+    if (age < this.options.pendingMs + this.options.runningMs) {
+      return 'RUNNING';
+    }
+    return task.failureCode ? 'FAILED' : 'SUCCEEDED';
+  }
+
+  /**
+   * 输出模拟生成的 PNG 图片
+   */
+  private serveImage(res: ServerResponse, taskId: string, index: number): void {
+    const task = this.tasks.get(taskId);
+    if (!task || index >= task.n || this.getTaskStatus(task) !== 'SUCCEEDED') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not Found');
+      return;
+    }
+
+    const png = this.renderImage(task, index);
+    res.writeHead(200, {
+      'Content-Type': 'image/png',
+      'Content-Length': png.length
+    });
+    res.end(png);
+  }
+
+  /**
+   * 根据提示词哈希渲染渐变图片，保证同一任务结果稳定
+   */
+  private renderImage(task: SimulatedTask, index: number): Buffer {
+    const hash = createHash('md5').update(`${task.prompt}#${index}`).digest();
+    const from = [hash[0], hash[1], hash[2]];
+    const to = [hash[3], hash[4], hash[5]];
+    const { width, height } = task;
+
+    const pixels = new Uint8Array(width * height * 3);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const t = (x / width + y / height) / 2;
+        const offset = (y * width + x) * 3;
+        for (let c = 0; c < 3; c++) {
+          pixels[offset + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+        }
+      }
+    }
+
+    return encodePng(width, height, pixels, PngColorType.RGB);
+  }
+
+  /**
+   * 解析提示词中的模拟指令
+   */
+  private parseDirectives(prompt: string): { submit?: string; fail?: string } {
+    const directives: { submit?: string; fail?: string } = {};
+    for (const match of prompt.matchAll(DIRECTIVE_PATTERN)) {
+      directives[match[1] as 'submit' | 'fail'] = match[2];
+    }
+    return directives;
+  }
+
+  /**
+   * 以 DashScope 格式返回错误
+   */
+  private sendError(res: ServerResponse, code: string, message?: string): void {
+    const error = SIMULATED_ERRORS[code] || { status: 400, message: `Simulated error: ${code}` };
+    this.sendJson(res, error.status, {
+      request_id: randomUUID(),
+      code,
+      message: message || error.message
+    }, error.status === 429 ? { 'Retry-After': '1' } : {});
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  private async readJson(req: IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * DashScope 时间格式：2025-01-08 16:03:59.840
+   */
+  private formatTime(timestamp: number): string {
+    return new Date(timestamp).toISOString().replace('T', ' ').replace('Z', '');
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * DashScope 模拟器导出
+ */
+
+export { DashScopeSimulator, SimulatorOptions } from './dashscope-simulator.js';
@@ -4,13 +4,21 @@ import {
   readFileSync, 
   createWriteStream, 
   unlinkSync,
-  statSync
+  statSync,
+  mkdirSync,
+  readdirSync,
+  realpathSync
 } from 'fs';
-import { join } from 'path';
+import { extname, isAbsolute, join, relative, resolve } from 'path';
+import { fileURLToPath } from 'url';
 import { createHash } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
 import { pipeline } from 'stream/promises';
-import { Config, Logger, TongyiError } from '../../infrastructure/index.js';
+import { Config, Logger, TongyiError, throwIfAborted } from '../../infrastructure/index.js';
 import { OSSService } from './oss-service.js';
+import type { LocalFileServer } from './local-file-server.js';
+import type { ModelFallback } from '../services/index.js';
 
 /**
  * 本地存储的图片信息
@@ -26,8 +34,19 @@ export interface StoredImage {
   metadata: {
     model: string;
     size: string;
-    task_id: string;
+    /** 生成该图片的任务ID，本地生成的图片（如遮罩）没有任务 */
+    task_id?: string;
     actualPrompt?: string;
+    /** 创建任务时的完整生成参数，用于查找相同请求已存储的结果 */
+    generation?: GenerationParams;
+    /** 使用备用模型生成时，请求的模型和降级原因 */
+    fallback?: ModelFallback;
+    /** 本地生成的遮罩：基础图像、生成方式和编辑区域占比 */
+    mask?: {
+      baseImage: string;
+      method: 'shapes' | 'annotation';
+      coverage: number;
+    };
   };
   // OSS 相关信息
   ossInfo?: {
@@ -38,15 +57,146 @@ export interface StoredImage {
   };
 }
 
+/**
+ * 生成参数：任务类型 + 提交给服务的全部请求参数
+ */
+export interface GenerationParams {
+  kind: string;
+  model: string;
+  prompt: string;
+  negative_prompt?: string;
+  size?: string;
+  n?: number;
+  seed?: number;
+  prompt_extend?: boolean;
+  watermark?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * 任务来源：发起任务的工具、MCP 客户端和批量任务
+ */
+export interface TaskSource {
+  tool: string;
+  client?: string;
+  batchId?: string;
+}
+
+/**
+ * 任务日志记录：任务创建时写入，用于重启后恢复未完成的任务
+ */
+export interface StoredTaskRecord {
+  taskId: string;
+  status: string;
+  updatedAt: number;
+  /** 任务类型，如 text_to_image、image_edit */
+  kind?: string;
+  prompt?: string;
+  model?: string;
+  /** 创建任务时的请求参数 */
+  params?: Record<string, any>;
+  source?: TaskSource;
+  /** 使用备用模型创建任务时的降级信息（model 为实际使用的模型） */
+  fallback?: ModelFallback;
+  /** 创建任务的 DashScope 区域，重启后查询任务直接发往该区域 */
+  region?: string;
+  createdAt?: number;
+  completedAt?: number;
+  /** 结果图片是否已全部下载存储 */
+  resultsStored?: boolean;
+  imageIds?: string[];
+  error?: string;
+  cancelledAt?: number;
+  cancelReason?: string;
+}
+
+/**
+ * 图片下载存储阶段
+ */
+export type StorageStage = 'downloading' | 'uploading';
+
+/**
+ * 下载存储的可选项
+ */
+export interface DownloadAndStoreOptions {
+  /** 进入各存储阶段时回调 */
+  onStage?: (stage: StorageStage) => void;
+  /** 取消信号：触发后中止下载和 OSS 上传，并清理已写入的文件 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 图像输入的来源：公网 URL、图片资源 URI、本地文件或 base64 data URI
+ */
+export type ImageInputSource = 'url' | 'resource' | 'file' | 'data_uri';
+
+/**
+ * 解析后可供 DashScope 下载的图像输入
+ */
+export interface ResolvedImageInput {
+  url: string;
+  source: ImageInputSource;
+  /** 输入为图片资源 URI 时对应的图片 ID */
+  imageId?: string;
+}
+
+const RESOURCE_URI_PREFIX = 'tongyi-wanx://images/';
+
+/**
+ * 图像编辑输入图片的大小上限（DashScope 限制为 10MB）
+ */
+const MAX_INPUT_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * data URI 支持的图片类型及对应扩展名
+ */
+const INPUT_IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/jpg': '.jpg',
+  'image/png': '.png',
+  'image/bmp': '.bmp',
+  'image/webp': '.webp',
+  'image/tiff': '.tiff'
+};
+
+/**
+ * 图像输入 OSS 签名 URL 的有效期（秒），需覆盖任务排队和执行的时间
+ */
+const INPUT_URL_EXPIRES = 3600;
+
+/**
+ * 读取 URL 输入时拒绝的内网、回环和链路本地地址，避免通过图像输入访问服务器所在网络
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+/**
+ * OSS 不可用时保存图像输入的子目录（位于 IMAGES_DIR 下）
+ */
+const INPUTS_DIR = 'inputs';
+
 /**
  * 优化的图片存储管理器
  */
 export class ImageStorage {
   private images: Map<string, StoredImage> = new Map();
+  private taskRecords: Map<string, StoredTaskRecord> = new Map();
   private readonly metadataFile: string | null;
+  private readonly taskRecordsFile: string | null;
   private readonly imagesDir: string | null;
   private cleanupInterval: NodeJS.Timeout | null = null;
   private ossService: OSSService;
+  private fileServer: LocalFileServer | null = null;
   private readonly localStorageEnabled: boolean;
 
   constructor(imagesDir?: string) {
@@ -56,10 +206,12 @@ export class ImageStorage {
     if (this.localStorageEnabled) {
       this.imagesDir = imagesDir || Config.IMAGES_DIR!;
       this.metadataFile = join(this.imagesDir, 'metadata.json');
+      this.taskRecordsFile = join(this.imagesDir, 'tasks.json');
       Logger.info(`图片本地存储已启用，目录: ${this.imagesDir}`);
     } else {
       this.imagesDir = null;
       this.metadataFile = null;
+      this.taskRecordsFile = null;
       Logger.info('图片本地存储未启用，仅使用 OSS 存储');
     }
     
@@ -67,10 +219,18 @@ export class ImageStorage {
     
     if (this.localStorageEnabled) {
       this.loadMetadata();
+      this.loadTaskRecords();
       this.startCleanupScheduler();
     }
   }
 
+  /**
+   * 设置本地文件服务器：OSS 不可用时通过它为本地图片生成签名访问 URL
+   */
+  setFileServer(fileServer: LocalFileServer | null): void {
+    this.fileServer = fileServer;
+  }
+
   /**
    * 加载元数据
    */
@@ -84,6 +244,13 @@ export class ImageStorage {
         const data = JSON.parse(readFileSync(this.metadataFile, 'utf-8'));
         this.images = new Map(Object.entries(data));
         Logger.info(`已加载 ${this.images.size} 个图片记录`);
+
+        // 早期版本的遮罩使用占位任务ID 'local'，会被当作同一个任务的结果
+        for (const image of this.images.values()) {
+          if (image.metadata.mask && image.metadata.task_id === 'local') {
+            delete image.metadata.task_id;
+          }
+        }
         
         // 验证文件是否存在，清理无效记录
         this.validateStoredFiles();
@@ -94,6 +261,40 @@ export class ImageStorage {
     }
   }
 
+  /**
+   * 加载任务日志
+   */
+  private loadTaskRecords(): void {
+    if (!this.taskRecordsFile || !existsSync(this.taskRecordsFile)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.taskRecordsFile, 'utf-8'));
+      this.taskRecords = new Map(Object.entries(data));
+      Logger.info(`已加载 ${this.taskRecords.size} 个任务记录`);
+    } catch (error) {
+      Logger.error('加载任务记录失败', error);
+      this.taskRecords = new Map();
+    }
+  }
+
+  /**
+   * 保存任务记录
+   */
+  private saveTaskRecords(): void {
+    if (!this.taskRecordsFile) {
+      return;
+    }
+
+    try {
+      writeFileSync(this.taskRecordsFile, JSON.stringify(Object.fromEntries(this.taskRecords), null, 2));
+      Logger.debug('任务记录已保存');
+    } catch (error) {
+      Logger.error('保存任务记录失败', error);
+    }
+  }
+
   /**
    * 验证存储的文件是否存在
    */
@@ -184,6 +385,34 @@ export class ImageStorage {
     } else {
       Logger.debug('未发现需要清理的过期图片');
     }
+
+    // 清理本地文件服务器目录中过期的图像输入
+    const inputsDir = join(this.imagesDir!, INPUTS_DIR);
+    if (existsSync(inputsDir)) {
+      for (const filename of readdirSync(inputsDir)) {
+        const filePath = join(inputsDir, filename);
+        try {
+          if (now - statSync(filePath).mtimeMs > maxAge) {
+            unlinkSync(filePath);
+          }
+        } catch (error) {
+          Logger.error(`清理图像输入失败: ${filename}`, error);
+        }
+      }
+    }
+
+    // 同步清理过期的任务记录
+    let cleanedRecords = 0;
+    for (const [taskId, record] of this.taskRecords) {
+      if (now - record.updatedAt > maxAge) {
+        this.taskRecords.delete(taskId);
+        cleanedRecords++;
+      }
+    }
+    if (cleanedRecords > 0) {
+      Logger.info(`清理了 ${cleanedRecords} 个过期任务记录`);
+      this.saveTaskRecords();
+    }
   }
 
   /**
@@ -203,14 +432,15 @@ export class ImageStorage {
   async downloadAndStore(
     url: string, 
     prompt: string, 
-    metadata: any
+    metadata: any,
+    options: DownloadAndStoreOptions = {}
   ): Promise<StoredImage> {
     // 生成唯一ID和文件名
     const imageId = createHash('md5').update(url + Date.now()).digest('hex');
     const timestamp = Date.now();
     const extension = this.getFileExtension(url);
     const filename = `${timestamp}_${imageId}.${extension}`;
-    const resourceUri = `tongyi-wanx://images/${imageId}`;
+    const resourceUri = `${RESOURCE_URI_PREFIX}${imageId}`;
 
     // 创建基础存储记录
     const storedImage: StoredImage = {
@@ -225,15 +455,18 @@ export class ImageStorage {
         model: metadata.model || 'unknown',
         size: metadata.size || 'unknown',
         task_id: metadata.task_id || 'unknown',
-        actualPrompt: metadata.actualPrompt
+        actualPrompt: metadata.actualPrompt,
+        generation: metadata.generation,
+        ...(metadata.fallback && { fallback: metadata.fallback })
       }
     };
 
     try {
       Logger.info(`开始下载图片: ${url}`);
+      options.onStage?.('downloading');
       
       // 下载图片
-      const response = await fetch(url);
+      const response = await fetch(url, { signal: options.signal });
       if (!response.ok) {
         throw new TongyiError(
           'DOWNLOAD_ERROR',
@@ -249,7 +482,7 @@ export class ImageStorage {
       // 如果启用本地存储，保存到本地
       if (this.localStorageEnabled && storedImage.localPath) {
         const writeStream = createWriteStream(storedImage.localPath);
-        await pipeline(response.body, writeStream);
+        await pipeline(response.body, writeStream, { signal: options.signal });
         Logger.info(`图片已保存到本地: ${filename}`);
       }
 
@@ -257,18 +490,21 @@ export class ImageStorage {
       if (this.ossService.isAvailable()) {
         try {
           Logger.info(`开始上传图片到 OSS: ${filename}`);
+          options.onStage?.('uploading');
           
           // 如果有本地文件，从本地文件上传，否则从 URL 上传
           let ossInfo;
           if (this.localStorageEnabled && storedImage.localPath) {
             ossInfo = await this.ossService.uploadFromFile(storedImage.localPath, {
               folder: 'images/generated',
-              filename: `${timestamp}_${imageId}`
+              filename: `${timestamp}_${imageId}`,
+              signal: options.signal
             });
           } else {
             ossInfo = await this.ossService.uploadFromUrl(url, {
               folder: 'images/generated',
-              filename: `${timestamp}_${imageId}`
+              filename: `${timestamp}_${imageId}`,
+              signal: options.signal
             });
           }
           
@@ -280,6 +516,7 @@ export class ImageStorage {
           };
           Logger.info(`图片已上传到 OSS: ${ossInfo.url}`);
         } catch (ossError) {
+          throwIfAborted(options.signal, '图片存储');
           Logger.warn('OSS 上传失败，仅保存到本地');
           // 不抛出错误，继续使用本地存储
         }
@@ -303,6 +540,7 @@ export class ImageStorage {
         Logger.error('清理失败文件出错', cleanupError);
       }
       
+      throwIfAborted(options.signal, '图片存储');
       if (error instanceof TongyiError) {
         throw error;
       }
@@ -361,6 +599,114 @@ export class ImageStorage {
     );
   }
 
+  /**
+   * 查找生成参数完全相同的任务已存储的图片（按任务从新到旧，取第一个图片齐全的任务）
+   */
+  findImagesByGeneration(generation: GenerationParams): StoredImage[] {
+    const key = this.getGenerationKey(generation);
+    const imagesByTask = new Map<string, StoredImage[]>();
+
+    for (const image of this.getAllImages()) {
+      const stored = image.metadata.generation;
+      if (stored && image.metadata.task_id && this.getGenerationKey(stored) === key) {
+        const images = imagesByTask.get(image.metadata.task_id) || [];
+        images.push(image);
+        imagesByTask.set(image.metadata.task_id, images);
+      }
+    }
+
+    for (const images of imagesByTask.values()) {
+      if (images.length >= (generation.n ?? 1)) {
+        return images.sort((a, b) => a.timestamp - b.timestamp);
+      }
+    }
+    return [];
+  }
+
+  /**
+   * 生成参数的规范化键：忽略未设置的字段和字段顺序
+   */
+  private getGenerationKey(generation: GenerationParams): string {
+    return JSON.stringify(
+      Object.entries(generation)
+        .filter(([, value]) => value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+    );
+  }
+
+  /**
+   * 记录新创建的任务
+   */
+  recordTaskCreation(
+    taskId: string,
+    info: Pick<StoredTaskRecord, 'kind' | 'prompt' | 'model' | 'params' | 'source' | 'fallback' | 'region'> & { status?: string }
+  ): StoredTaskRecord {
+    const now = Date.now();
+    const record: StoredTaskRecord = {
+      taskId,
+      status: info.status || 'PENDING',
+      kind: info.kind,
+      prompt: info.prompt,
+      model: info.model,
+      params: info.params,
+      source: info.source,
+      ...(info.fallback && { fallback: info.fallback }),
+      ...(info.region && { region: info.region }),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.taskRecords.set(taskId, record);
+    this.saveTaskRecords();
+    Logger.debug(`已记录任务创建: ${taskId}`);
+    return record;
+  }
+
+  /**
+   * 更新任务记录（不存在时新建）
+   */
+  updateTaskRecord(taskId: string, changes: Partial<Omit<StoredTaskRecord, 'taskId' | 'updatedAt'>>): StoredTaskRecord {
+    const existing = this.taskRecords.get(taskId);
+    const record: StoredTaskRecord = {
+      status: 'UNKNOWN',
+      ...existing,
+      ...changes,
+      taskId,
+      updatedAt: Date.now()
+    };
+
+    this.taskRecords.set(taskId, record);
+    this.saveTaskRecords();
+    return record;
+  }
+
+  /**
+   * 记录任务取消
+   */
+  recordTaskCancellation(taskId: string, reason?: string): StoredTaskRecord {
+    const record = this.updateTaskRecord(taskId, {
+      status: 'CANCELED',
+      cancelledAt: Date.now(),
+      cancelReason: reason
+    });
+    Logger.info(`已记录任务取消: ${taskId}`);
+    return record;
+  }
+
+  /**
+   * 获取任务记录
+   */
+  getTaskRecord(taskId: string): StoredTaskRecord | undefined {
+    return this.taskRecords.get(taskId);
+  }
+
+  /**
+   * 获取所有任务记录
+   */
+  getAllTaskRecords(): StoredTaskRecord[] {
+    return Array.from(this.taskRecords.values());
+  }
+
   /**
    * 搜索图片
    */
@@ -492,18 +838,406 @@ export class ImageStorage {
   }
 
   /**
-   * 获取图片的最佳访问 URL（优先使用 OSS URL）
+   * 获取图片的最佳访问 URL（优先使用 OSS URL，其次为本地文件服务器的签名 URL）
    */
   getBestImageUrl(storedImage: StoredImage): string {
     // 如果有 OSS URL 且 OSS 可用，优先使用 OSS URL
     if (storedImage.ossInfo?.url && this.ossService.isAvailable()) {
       return storedImage.ossInfo.url;
     }
+
+    // OSS 不可用时由本地文件服务器提供短时有效的签名 URL
+    if (!this.ossService.isAvailable() && this.fileServer?.isAvailable() &&
+        storedImage.localPath && existsSync(storedImage.localPath)) {
+      return this.fileServer.getSignedUrl(storedImage.localPath);
+    }
     
     // 否则返回本地文件的资源 URI
     return storedImage.resourceUri;
   }
 
+  /**
+   * 将图像输入解析为 DashScope 可以下载的 URL
+   * 公网 URL 原样返回；图片资源 URI 优先使用已有的 OSS URL，否则上传本地文件并记录到图片信息中；
+   * 本地文件和 data URI 按内容上传到 OSS（相同内容复用同一对象）并返回签名 URL。
+   * OSS 不可用时改用本地文件服务器的签名 URL，IMAGES_DIR 之外的输入先按内容复制到 inputs 目录
+   * @param parameter 输入对应的请求参数名，用于错误提示
+   */
+  async resolveImageInput(input: string, parameter: string, signal?: AbortSignal): Promise<ResolvedImageInput> {
+    const value = input.trim();
+
+    if (/^https?:\/\//i.test(value)) {
+      return { url: value, source: 'url' };
+    }
+
+    if (value.startsWith(RESOURCE_URI_PREFIX)) {
+      const image = this.getImageByResourceUri(value);
+      if (!image) {
+        throw this.createInputError(`图片资源不存在: ${value}`, parameter, '使用 search_images 查找可用的图片资源 URI');
+      }
+
+      if (image.ossInfo?.url && this.ossService.isAvailable()) {
+        return { url: image.ossInfo.url, source: 'resource', imageId: image.id };
+      }
+
+      if (!image.localPath || !existsSync(image.localPath)) {
+        throw this.createInputError(
+          `图片资源 ${value} 的本地文件已不存在`,
+          parameter,
+          '重新生成该图片，或直接提供公网可访问的图片 URL'
+        );
+      }
+
+      this.ensureInputPublishAvailable(parameter);
+      if (!this.ossService.isAvailable()) {
+        return { url: this.fileServer!.getSignedUrl(image.localPath), source: 'resource', imageId: image.id };
+      }
+
+      const ossInfo = await this.ossService.uploadFromFile(image.localPath, {
+        folder: 'images/repaired',
+        filename: `repaired_${Date.now()}_${image.id}`,
+        signal
+      });
+      image.ossInfo = {
+        url: ossInfo.url,
+        name: ossInfo.name,
+        bucket: ossInfo.bucket,
+        uploadTime: Date.now()
+      };
+      this.images.set(image.id, image);
+      this.saveMetadata();
+
+      Logger.info(`图片资源已上传到 OSS 用于图像编辑: ${value}`);
+      return { url: ossInfo.url, source: 'resource', imageId: image.id };
+    }
+
+    if (/^data:/i.test(value)) {
+      const { buffer, extension } = this.decodeDataUri(value, parameter);
+      return { url: await this.publishInputImage(buffer, extension, parameter, signal), source: 'data_uri' };
+    }
+
+    const filePath = this.resolveInputPath(value, parameter);
+    return {
+      url: await this.publishInputImage(readFileSync(filePath), extname(filePath).toLowerCase(), parameter, signal),
+      source: 'file'
+    };
+  }
+
+  /**
+   * 读取图像输入的内容，支持图片 ID、图片资源 URI、URL、本地文件路径和 base64 data URI
+   * @param parameter 输入对应的请求参数名，用于错误提示
+   */
+  async readImageInput(input: string, parameter: string, signal?: AbortSignal): Promise<Buffer> {
+    const value = input.trim();
+
+    const image = value.startsWith(RESOURCE_URI_PREFIX) ? this.getImageByResourceUri(value) : this.getImage(value);
+    if (image) {
+      if (image.localPath && existsSync(image.localPath)) {
+        return readFileSync(image.localPath);
+      }
+      // 本地生成的图片（如遮罩）的 originalUrl 是资源 URI，无法下载
+      const remoteUrl = image.ossInfo?.url || (/^https?:\/\//i.test(image.originalUrl) ? image.originalUrl : undefined);
+      if (!remoteUrl) {
+        throw this.createInputError(
+          `图片资源 ${value} 的本地文件已不存在`,
+          parameter,
+          '重新生成该图片，或直接提供公网可访问的图片 URL'
+        );
+      }
+      return this.fetchInputImage(remoteUrl, parameter, signal);
+    }
+    if (value.startsWith(RESOURCE_URI_PREFIX)) {
+      throw this.createInputError(`图片资源不存在: ${value}`, parameter, '使用 search_images 查找可用的图片资源 URI');
+    }
+
+    if (/^https?:\/\//i.test(value)) {
+      await this.ensurePublicUrl(value, parameter);
+      return this.fetchInputImage(value, parameter, signal, { redirect: 'error' });
+    }
+
+    if (/^data:/i.test(value)) {
+      return this.decodeDataUri(value, parameter).buffer;
+    }
+
+    return readFileSync(this.resolveInputPath(value, parameter));
+  }
+
+  /**
+   * 存储本地生成的图片（如遮罩）：启用本地存储时保存到 IMAGES_DIR，OSS 可用时同时上传
+   */
+  async storeImageBuffer(
+    buffer: Buffer,
+    extension: string,
+    prompt: string,
+    metadata: StoredImage['metadata'],
+    options: { folder?: string; signal?: AbortSignal } = {}
+  ): Promise<StoredImage> {
+    if (!this.localStorageEnabled && !this.ossService.isAvailable()) {
+      throw new TongyiError('STORAGE_ERROR', '本地存储和 OSS 均不可用，无法保存图片');
+    }
+
+    const timestamp = Date.now();
+    const imageId = createHash('md5').update(buffer).update(String(timestamp)).digest('hex');
+    const filename = `${timestamp}_${imageId}${extension}`;
+    const resourceUri = `${RESOURCE_URI_PREFIX}${imageId}`;
+    const storedImage: StoredImage = {
+      id: imageId,
+      filename,
+      localPath: this.localStorageEnabled && this.imagesDir ? join(this.imagesDir, filename) : undefined,
+      resourceUri,
+      originalUrl: resourceUri,
+      prompt,
+      timestamp,
+      metadata
+    };
+
+    if (storedImage.localPath) {
+      writeFileSync(storedImage.localPath, buffer);
+      Logger.info(`图片已保存到本地: ${filename}`);
+    }
+
+    if (this.ossService.isAvailable()) {
+      try {
+        const ossInfo = await this.ossService.uploadBuffer(buffer, filename, {
+          folder: options.folder || 'images/generated',
+          signal: options.signal
+        });
+        storedImage.ossInfo = {
+          url: ossInfo.url,
+          name: ossInfo.name,
+          bucket: ossInfo.bucket,
+          uploadTime: Date.now()
+        };
+      } catch (error) {
+        if (!storedImage.localPath) {
+          throw error;
+        }
+        throwIfAborted(options.signal, '图片存储');
+        Logger.warn('OSS 上传失败，仅保存到本地');
+      }
+    }
+
+    this.images.set(imageId, storedImage);
+    this.saveMetadata();
+    return storedImage;
+  }
+
+  /**
+   * @param init 调用方提供的 URL 不跟随重定向，避免重定向到内网地址
+   */
+  private async fetchInputImage(
+    url: string,
+    parameter: string,
+    signal?: AbortSignal,
+    init: { redirect?: RequestRedirect } = {}
+  ): Promise<Buffer> {
+    let response: Response;
+    try {
+      response = await fetch(url, { signal, ...init });
+    } catch (error) {
+      throwIfAborted(signal, '图片下载');
+      throw this.createInputError(
+        `图片下载失败: ${error instanceof Error ? error.message : String(error)}`,
+        parameter,
+        '确认图片 URL 可访问且不是重定向地址'
+      );
+    }
+    if (!response.ok) {
+      throw this.createInputError(
+        `图片下载失败: ${response.status} ${response.statusText}`,
+        parameter,
+        '确认图片 URL 可访问且未过期'
+      );
+    }
+
+    // 先按 content-length 拒绝过大的图片，读取时超过上限立即停止，不缓存整个响应
+    const declaredSize = Number(response.headers.get('content-length'));
+    if (declaredSize > MAX_INPUT_IMAGE_BYTES) {
+      void response.body?.cancel();
+      throw this.createTooLargeError(parameter, declaredSize);
+    }
+    if (!response.body) {
+      return Buffer.alloc(0);
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        size += value.length;
+        if (size > MAX_INPUT_IMAGE_BYTES) {
+          void reader.cancel();
+          throw this.createTooLargeError(parameter);
+        }
+        chunks.push(value);
+      }
+    } catch (error) {
+      throwIfAborted(signal, '图片下载');
+      throw error;
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private createTooLargeError(parameter: string, size?: number): TongyiError {
+    return this.createInputError(
+      size !== undefined
+        ? `图片大小 ${(size / 1024 / 1024).toFixed(1)}MB 超过 10MB 上限`
+        : '图片大小超过 10MB 上限',
+      parameter,
+      '压缩图片或降低分辨率后重试'
+    );
+  }
+
+  private decodeDataUri(value: string, parameter: string): { buffer: Buffer; extension: string } {
+    const match = /^data:([^;,]+)((?:;[^;,]+)*);base64,(.*)$/is.exec(value);
+    const extension = match ? INPUT_IMAGE_EXTENSIONS[match[1].toLowerCase()] : undefined;
+    if (!match || !extension) {
+      throw this.createInputError(
+        'data URI 格式不正确，需要 base64 编码的图片',
+        parameter,
+        `使用 data:image/png;base64,... 格式，支持的类型: ${Object.keys(INPUT_IMAGE_EXTENSIONS).join(', ')}`
+      );
+    }
+    return { buffer: Buffer.from(match[3].replace(/\s/g, ''), 'base64'), extension };
+  }
+
+  /**
+   * 确认调用方提供的 URL 指向公网地址，解析到内网、回环或链路本地地址时抛出参数错误
+   */
+  private async ensurePublicUrl(value: string, parameter: string): Promise<void> {
+    let addresses: string[];
+    try {
+      const hostname = new URL(value).hostname.replace(/^\[|\]$/g, '');
+      addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map(entry => entry.address);
+    } catch {
+      throw this.createInputError(`无法解析图片 URL 的地址: ${value}`, parameter, '确认图片 URL 正确且可访问');
+    }
+
+    const blocked = addresses.some(address => {
+      // IPv4 映射的 IPv6 地址按 IPv4 检查
+      const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+      return mapped
+        ? PRIVATE_ADDRESSES.check(mapped, 'ipv4')
+        : PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+    });
+    if (blocked) {
+      throw this.createInputError(
+        `不允许读取内网或本机地址的图片: ${value}`,
+        parameter,
+        '使用公网可访问的图片 URL，本机图片请放入 IMAGES_DIR 或 INPUT_ALLOWED_DIRS 中的目录后使用本地路径'
+      );
+    }
+  }
+
+  /**
+   * 本地图片输入允许的根目录：IMAGES_DIR 和 INPUT_ALLOWED_DIRS（解析符号链接后的真实路径）
+   */
+  private getAllowedInputDirs(): string[] {
+    return [this.imagesDir, ...Config.INPUT_ALLOWED_DIRS]
+      .filter((dir): dir is string => !!dir && existsSync(dir))
+      .map(dir => realpathSync(dir));
+  }
+
+  /**
+   * 解析本地图片路径（支持 file:// URL），文件不存在、不在允许的目录中或类型不支持时抛出参数错误
+   */
+  private resolveInputPath(value: string, parameter: string): string {
+    let filePath: string;
+    try {
+      filePath = value.startsWith('file://') ? fileURLToPath(value) : resolve(value);
+    } catch {
+      filePath = '';
+    }
+    if (!filePath || !existsSync(filePath) || !statSync(filePath).isFile()) {
+      throw this.createInputError(
+        `无法识别的图像输入: ${value.length > 100 ? `${value.substring(0, 100)}...` : value}`,
+        parameter,
+        '提供公网可访问的图片 URL、tongyi-wanx://images/{id} 资源 URI、存在的本地文件路径或 base64 data URI'
+      );
+    }
+
+    // 按真实路径检查，防止通过符号链接或 .. 访问允许目录之外的文件
+    filePath = realpathSync(filePath);
+    const allowedDirs = this.getAllowedInputDirs();
+    if (!allowedDirs.some(dir => {
+      const path = relative(dir, filePath);
+      return path && !path.startsWith('..') && !isAbsolute(path);
+    })) {
+      throw this.createInputError(
+        `不允许读取该路径的文件: ${value}`,
+        parameter,
+        `本地图片需位于 IMAGES_DIR 或 INPUT_ALLOWED_DIRS 配置的目录中（当前允许: ${allowedDirs.join(', ') || '无'}）`
+      );
+    }
+
+    const extension = extname(filePath).toLowerCase();
+    if (!Object.values(INPUT_IMAGE_EXTENSIONS).includes(extension === '.jpeg' ? '.jpg' : extension)) {
+      throw this.createInputError(
+        `不支持的图片文件类型: ${filePath}`,
+        parameter,
+        '使用 JPG、PNG、BMP、WEBP 或 TIFF 格式的图片'
+      );
+    }
+    return filePath;
+  }
+
+  /**
+   * 按内容发布输入图片并返回签名 URL：OSS 可用时上传到 OSS，否则保存到 inputs 目录由本地文件服务器提供
+   */
+  private async publishInputImage(buffer: Buffer, extension: string, parameter: string, signal?: AbortSignal): Promise<string> {
+    if (buffer.length === 0) {
+      throw this.createInputError('图片内容为空', parameter, '检查图片文件或 base64 数据是否完整');
+    }
+    if (buffer.length > MAX_INPUT_IMAGE_BYTES) {
+      throw this.createTooLargeError(parameter, buffer.length);
+    }
+
+    this.ensureInputPublishAvailable(parameter);
+    const hash = createHash('md5').update(buffer).digest('hex');
+
+    if (!this.ossService.isAvailable()) {
+      const inputsDir = join(this.imagesDir!, INPUTS_DIR);
+      const filePath = join(inputsDir, `input_${hash}${extension}`);
+      if (!existsSync(filePath)) {
+        mkdirSync(inputsDir, { recursive: true });
+        writeFileSync(filePath, buffer);
+        Logger.info(`图像输入已保存到本地文件服务器目录: ${filePath}`);
+      }
+      return this.fileServer!.getSignedUrl(filePath);
+    }
+
+    const ossInfo = await this.ossService.uploadBuffer(buffer, `input_${hash}${extension}`, {
+      folder: 'images/edit-inputs',
+      signal,
+      shared: true
+    });
+
+    Logger.info(`图像输入已上传到 OSS: ${ossInfo.name}`);
+    return this.ossService.getSignedUrl(ossInfo.name, INPUT_URL_EXPIRES);
+  }
+
+  private ensureInputPublishAvailable(parameter: string): void {
+    if (!this.ossService.isAvailable() && !(this.fileServer?.isAvailable() && this.imagesDir)) {
+      throw this.createInputError(
+        '本地图片需要发布后才能被 DashScope 访问，但 OSS 服务和本地文件服务器都不可用',
+        parameter,
+        '配置 OSS_ENABLE 及 OSS 相关环境变量，或设置 FILE_SERVER_ENABLE=true 并将 FILE_SERVER_PUBLIC_URL 设为公网可访问的地址，或直接提供公网可访问的图片 URL'
+      );
+    }
+  }
+
+  private createInputError(message: string, parameter: string, remediation: string): TongyiError {
+    const error = new TongyiError('VALIDATION_ERROR', `${parameter}: ${message}`);
+    error.parameter = parameter;
+    error.remediation = remediation;
+    return error;
+  }
+
   /**
    * 检查并修复图片的 OSS 状态
    */
@@ -567,6 +1301,7 @@ export class ImageStorage {
     
     // 保存最终状态
     this.saveMetadata();
+    this.saveTaskRecords();
     Logger.info('图片存储管理器已销毁');
   }
 }
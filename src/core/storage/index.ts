@@ -2,5 +2,6 @@
  * 存储管理导出
  */
 
-export { ImageStorage, StoredImage } from './image-storage.js';
+export { ImageStorage, StoredImage, StoredTaskRecord, GenerationParams, TaskSource, StorageStage, DownloadAndStoreOptions, ImageInputSource, ResolvedImageInput } from './image-storage.js';
 export { OSSService, OSSFileInfo, OSSUploadOptions } from './oss-service.js';
+export { LocalFileServer, LocalFileServerOptions, LocalFileServerStatus } from './local-file-server.js';
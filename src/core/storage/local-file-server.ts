@@ -0,0 +1,230 @@
+/**
+ * 本地文件服务器
+ * 在 HTTP 端口上以带 HMAC 签名、短时有效的 URL 提供 IMAGES_DIR 中的文件，
+ * 未配置 OSS 时 DashScope 可通过该地址下载图像编辑的输入图片
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createReadStream, existsSync, statSync } from 'fs';
+import { extname, isAbsolute, relative, resolve, sep } from 'path';
+import { Config, Logger, TongyiError } from '../../infrastructure/index.js';
+
+/**
+ * 文件服务器配置
+ */
+export interface LocalFileServerOptions {
+  /** 提供访问的根目录，只能访问该目录下的文件 */
+  rootDir: string;
+  host: string;
+  port: number;
+  /** 签名 URL 使用的公网访问地址（如反向代理或隧道地址） */
+  publicUrl: string;
+  /** HMAC 签名密钥，未配置时每次启动随机生成（重启后之前的 URL 失效） */
+  secret: string;
+  /** 签名 URL 的默认有效期(秒) */
+  urlTtl: number;
+}
+
+/**
+ * 文件服务器状态
+ */
+export interface LocalFileServerStatus {
+  running: boolean;
+  publicUrl: string;
+  urlTtl: number;
+  served: number;
+  rejected: number;
+}
+
+const FILES_PATH = '/files/';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.tiff': 'image/tiff',
+  '.gif': 'image/gif'
+};
+
+/**
+ * 本地文件服务器
+ */
+export class LocalFileServer {
+  private server: Server | null = null;
+  private readonly options: LocalFileServerOptions;
+  private served = 0;
+  private rejected = 0;
+
+  constructor(options: Partial<LocalFileServerOptions> = {}) {
+    this.options = {
+      rootDir: Config.IMAGES_DIR!,
+      host: Config.FILE_SERVER_HOST,
+      port: Config.FILE_SERVER_PORT,
+      publicUrl: Config.FILE_SERVER_PUBLIC_URL,
+      secret: Config.FILE_SERVER_SECRET || randomBytes(32).toString('hex'),
+      urlTtl: Config.FILE_SERVER_URL_TTL,
+      ...options
+    };
+    this.options.rootDir = resolve(this.options.rootDir);
+    this.options.publicUrl = this.options.publicUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * 启动文件服务器
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = createServer((req, res) => this.handleRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    this.server = server;
+
+    Logger.info(`本地文件服务器已启动: ${this.options.host}:${this.options.port}，访问地址 ${this.options.publicUrl}`);
+  }
+
+  /**
+   * 停止文件服务器
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    Logger.info('本地文件服务器已停止');
+  }
+
+  /**
+   * 服务器是否正在运行
+   */
+  isAvailable(): boolean {
+    return this.server !== null;
+  }
+
+  /**
+   * 生成文件的签名访问 URL
+   * @param filePath 根目录下的文件路径
+   * @param expires 有效期(秒)，默认使用 FILE_SERVER_URL_TTL
+   */
+  getSignedUrl(filePath: string, expires: number = this.options.urlTtl): string {
+    const relativePath = this.toRelativePath(filePath);
+    if (!relativePath) {
+      throw new TongyiError('VALIDATION_ERROR', `文件不在本地文件服务器的根目录中: ${filePath}`);
+    }
+
+    const expiresAt = Math.ceil(Date.now() / 1000) + expires;
+    const encodedPath = relativePath.split('/').map(encodeURIComponent).join('/');
+    const signature = this.sign(relativePath, expiresAt);
+    return `${this.options.publicUrl}${FILES_PATH}${encodedPath}?expires=${expiresAt}&signature=${signature}`;
+  }
+
+  getStatus(): LocalFileServerStatus {
+    return {
+      running: this.isAvailable(),
+      publicUrl: this.options.publicUrl,
+      urlTtl: this.options.urlTtl,
+      served: this.served,
+      rejected: this.rejected
+    };
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      this.reject(res, 405, 'Method Not Allowed');
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (!url.pathname.startsWith(FILES_PATH)) {
+      this.reject(res, 404, 'Not Found');
+      return;
+    }
+
+    let relativePath: string;
+    try {
+      relativePath = decodeURIComponent(url.pathname.slice(FILES_PATH.length));
+    } catch {
+      this.reject(res, 400, 'Bad Request');
+      return;
+    }
+
+    const expiresAt = parseInt(url.searchParams.get('expires') || '');
+    const signature = url.searchParams.get('signature') || '';
+    if (!Number.isFinite(expiresAt) || !this.verify(relativePath, expiresAt, signature)) {
+      this.reject(res, 403, 'Invalid Signature');
+      return;
+    }
+    if (expiresAt * 1000 < Date.now()) {
+      this.reject(res, 403, 'URL Expired');
+      return;
+    }
+
+    // 签名只覆盖请求的路径，仍需确认解析后的文件位于根目录内
+    const filePath = resolve(this.options.rootDir, relativePath);
+    if (!this.toRelativePath(filePath) || !existsSync(filePath) || !statSync(filePath).isFile()) {
+      this.reject(res, 404, 'Not Found');
+      return;
+    }
+
+    const size = statSync(filePath).size;
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[extname(filePath).toLowerCase()] || 'application/octet-stream',
+      'Content-Length': size,
+      'Cache-Control': 'private, no-store'
+    });
+    this.served++;
+    Logger.debug(`本地文件服务器提供文件: ${relativePath}`);
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    const stream = createReadStream(filePath);
+    stream.on('error', error => {
+      Logger.error(`本地文件服务器读取文件失败: ${relativePath}`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  }
+
+  private reject(res: ServerResponse, status: number, message: string): void {
+    this.rejected++;
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(message);
+  }
+
+  /**
+   * 转换为根目录下以 / 分隔的相对路径，不在根目录内时返回 undefined
+   */
+  private toRelativePath(filePath: string): string | undefined {
+    const path = relative(this.options.rootDir, resolve(filePath));
+    if (!path || path.startsWith('..') || isAbsolute(path)) {
+      return undefined;
+    }
+    return path.split(sep).join('/');
+  }
+
+  private sign(relativePath: string, expiresAt: number): string {
+    return createHmac('sha256', this.options.secret)
+      .update(`${relativePath}\n${expiresAt}`)
+      .digest('base64url');
+  }
+
+  private verify(relativePath: string, expiresAt: number, signature: string): boolean {
+    const expected = Buffer.from(this.sign(relativePath, expiresAt));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
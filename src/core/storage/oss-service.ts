@@ -1,5 +1,5 @@
 import OSS from 'ali-oss';
-import { Config, Logger, TongyiError } from '../../infrastructure/index.js';
+import { Config, Logger, TongyiError, abortable, throwIfAborted } from '../../infrastructure/index.js';
 import { readFileSync } from 'fs';
 import { basename, extname } from 'path';
 import fetch from 'node-fetch';
@@ -29,6 +29,10 @@ export interface OSSUploadOptions {
   meta?: Record<string, string>;
   /** 自定义 Headers */
   headers?: Record<string, string>;
+  /** 取消信号：触发后放弃上传，已完成的上传会被删除 */
+  signal?: AbortSignal;
+  /** 按内容命名、可能被多个请求共用的对象：取消时不删除，避免删掉其他请求正在使用的文件 */
+  shared?: boolean;
 }
 
 /**
@@ -96,7 +100,7 @@ export class OSSService {
 
     try {
       // 下载图片
-      const response = await fetch(imageUrl);
+      const response = await fetch(imageUrl, { signal: options.signal });
       if (!response.ok) {
         throw new Error(`下载图片失败: ${response.status} ${response.statusText}`);
       }
@@ -121,7 +125,7 @@ export class OSSService {
       };
 
       // 执行上传
-      const result = await this.client!.put(ossKey, imageBuffer, uploadOptions);
+      const result = await this.putObject(ossKey, imageBuffer, uploadOptions, options);
       
       Logger.info(`图片上传成功: ${result.name}`);
 
@@ -132,6 +136,7 @@ export class OSSService {
         size: imageBuffer.length
       };
     } catch (error) {
+      throwIfAborted(options.signal, 'OSS 上传');
       Logger.error('从 URL 上传图片到 OSS 失败', error);
       throw new TongyiError('OSS_UPLOAD_ERROR', `上传失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
@@ -174,7 +179,7 @@ export class OSSService {
       };
 
       // 执行上传
-      const result = await this.client!.put(ossKey, fileBuffer, uploadOptions);
+      const result = await this.putObject(ossKey, fileBuffer, uploadOptions, options);
       
       Logger.info(`文件上传成功: ${result.name}`);
 
@@ -185,6 +190,7 @@ export class OSSService {
         size: fileBuffer.length
       };
     } catch (error) {
+      throwIfAborted(options.signal, 'OSS 上传');
       Logger.error('上传本地文件到 OSS 失败', error);
       throw new TongyiError('OSS_UPLOAD_ERROR', `上传失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
@@ -220,7 +226,7 @@ export class OSSService {
       };
 
       // 执行上传
-      const result = await this.client!.put(ossKey, buffer, uploadOptions);
+      const result = await this.putObject(ossKey, buffer, uploadOptions, options);
       
       Logger.info(`Buffer 上传成功: ${result.name}`);
 
@@ -231,11 +237,35 @@ export class OSSService {
         size: buffer.length
       };
     } catch (error) {
+      throwIfAborted(options.signal, 'OSS 上传');
       Logger.error('上传 Buffer 到 OSS 失败', error);
       throw new TongyiError('OSS_UPLOAD_ERROR', `上传失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
   }
 
+  /**
+   * 执行上传，支持取消：取消时立即返回，上传若随后完成则删除该对象（共用的对象除外）
+   */
+  private async putObject(
+    ossKey: string,
+    data: Buffer,
+    uploadOptions: OSS.PutObjectOptions,
+    { signal, shared }: Pick<OSSUploadOptions, 'signal' | 'shared'>
+  ): Promise<OSS.PutObjectResult> {
+    throwIfAborted(signal, 'OSS 上传');
+    const upload = this.client!.put(ossKey, data, uploadOptions);
+
+    if (signal && !shared) {
+      upload.then(() => {
+        if (signal.aborted) {
+          this.deleteFile(ossKey).catch(error => Logger.error(`清理已取消的 OSS 上传失败: ${ossKey}`, error));
+        }
+      }, () => {});
+    }
+
+    return abortable(upload, signal, 'OSS 上传');
+  }
+
   /**
    * 删除 OSS 文件
    * @param ossKey OSS 对象键
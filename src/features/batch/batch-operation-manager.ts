@@ -3,9 +3,10 @@
  * 提供批量图片生成、批量处理和批量管理功能
  */
 
-import { Logger } from '../../infrastructure/index.js';
-import { TongyiWanxService, ImageStorage } from '../../core/index.js';
+import { Logger, throwIfAborted } from '../../infrastructure/index.js';
+import { TongyiWanxService, TaskSource, modelRegistry } from '../../core/index.js';
 import { ImageVersionManager } from '../versioning/index.js';
+import { TaskResultManager } from '../tasks/index.js';
 import { PromptOptimizer } from '../prompt/index.js';
 
 export interface BatchGenerationTask {
@@ -51,20 +52,19 @@ export interface BatchOperationOptions {
   retryCount?: number;
   continueOnError?: boolean;
   saveToCollection?: string;
+  /** 发起批量任务的 MCP 客户端名称，用于用量统计 */
+  client?: string;
 }
 
 export class BatchOperationManager {
-  private static activeTasks: Map<string, BatchGenerationTask> = new Map();  private static tongyiService: TongyiWanxService;
-  private static imageStorage: ImageStorage;
+  private static activeTasks: Map<string, BatchGenerationTask> = new Map();
+  private static abortControllers: Map<string, AbortController> = new Map();
+  private static tongyiService: TongyiWanxService;
 
   /**
    * 初始化批量操作管理器
-   */  static initialize(
-    tongyiService: TongyiWanxService,
-    imageStorage: ImageStorage
-  ): void {
+   */  static initialize(tongyiService: TongyiWanxService): void {
     this.tongyiService = tongyiService;
-    this.imageStorage = imageStorage;
     Logger.info('批量操作管理器初始化成功');
   }
 
@@ -101,12 +101,20 @@ export class BatchOperationManager {
     this.activeTasks.set(taskId, task);
     Logger.info(`创建批量生成任务: ${taskId}，包含 ${prompts.length} 个提示词`);
     
+    const controller = new AbortController();
+    this.abortControllers.set(taskId, controller);
+    
     // 异步执行任务
-    this.executeBatchTask(taskId, batchOptions).catch(error => {
+    this.executeBatchTask(taskId, batchOptions, controller.signal).catch(error => {
+      if (task.status === 'cancelled') {
+        return;
+      }
       Logger.error(`批量任务 ${taskId} 执行失败`, error);
       task.status = 'failed';
       task.error = error.message;
       task.completedAt = Date.now();
+    }).finally(() => {
+      this.abortControllers.delete(taskId);
     });
 
     return taskId;
@@ -117,10 +125,12 @@ export class BatchOperationManager {
    */
   private static async executeBatchTask(
     taskId: string,
-    options: BatchOperationOptions
+    options: BatchOperationOptions,
+    signal: AbortSignal
   ): Promise<void> {
     const task = this.activeTasks.get(taskId);
     if (!task) throw new Error(`任务 ${taskId} 不存在`);
+    throwIfAborted(signal, `批量任务 ${taskId} `);
 
     task.status = 'running';
     task.startedAt = Date.now();
@@ -131,6 +141,7 @@ export class BatchOperationManager {
       retryCount = 1,
       continueOnError = true
     } = options;
+    const source: TaskSource = { tool: 'batch_generate_images', client: options.client, batchId: taskId };
 
     // 使用并发管理器控制并发数
     const concurrentPromises: Promise<void>[] = [];
@@ -144,7 +155,9 @@ export class BatchOperationManager {
           const result = await this.processSinglePrompt(
             originalPrompt,
             task.options,
-            retryCount
+            retryCount,
+            signal,
+            source
           );
           
           task.results.push(result);
@@ -153,6 +166,11 @@ export class BatchOperationManager {
           Logger.info(`批量任务 ${taskId}: 完成 ${task.progress.completed}/${task.progress.total}`);
           
         } catch (error) {
+          // 批量任务已取消，不再记录失败结果
+          if (signal.aborted) {
+            return;
+          }
+          
           const failedResult: BatchGenerationResult = {
             prompt: originalPrompt,
             originalPrompt,
@@ -178,6 +196,11 @@ export class BatchOperationManager {
         await semaphore[semaphoreIndex];
       }
       
+      // 已取消时不再启动新的提示词
+      if (signal.aborted) {
+        break;
+      }
+      
       semaphore[semaphoreIndex] = executePrompt();
       concurrentPromises.push(semaphore[semaphoreIndex]);
     }
@@ -185,6 +208,11 @@ export class BatchOperationManager {
     // 等待所有任务完成
     await Promise.allSettled(concurrentPromises);
 
+    if (signal.aborted) {
+      Logger.info(`批量任务 ${taskId} 已取消: 成功 ${task.progress.completed}, 失败 ${task.progress.failed}`);
+      return;
+    }
+
     task.status = 'completed';
     task.completedAt = Date.now();
     task.progress.current = undefined;
@@ -198,7 +226,9 @@ export class BatchOperationManager {
   private static async processSinglePrompt(
     originalPrompt: string,
     options: BatchGenerationTask['options'],
-    retryCount: number
+    retryCount: number,
+    signal: AbortSignal,
+    source: TaskSource
   ): Promise<BatchGenerationResult> {
     let prompt = originalPrompt;
     let attempt = 0;
@@ -221,38 +251,43 @@ export class BatchOperationManager {
 
     // 重试机制
     while (attempt <= retryCount) {
+      throwIfAborted(signal, '批量生成');
       try {        // 生成主图片
-        const taskResponse = await this.tongyiService.createTextToImageTask({
-          model: 'wanx2.1-t2i-turbo',
+        const generationParams = {
+          model: modelRegistry.getDefaultModel('text-to-image').name,
           prompt: prompt,
           size: options.size || '1024*1024',
           n: 1,
           prompt_extend: true,
           watermark: false
-        });
+        };
+        const taskResponse = await this.tongyiService.createTextToImageTask(generationParams);
+        TaskResultManager.trackTask(taskResponse.output.task_id, 'text_to_image', generationParams, source, taskResponse.fallback);
         
         // 等待任务完成
-        const completedTask = await this.tongyiService.waitForTaskCompletion(taskResponse.output.task_id);
+        const completedTask = await this.tongyiService.waitForTaskCompletion(
+          taskResponse.output.task_id,
+          undefined,
+          undefined,
+          { signal }
+        );
+        
+        // 记录任务结果并保存图片
+        const [savedImage] = await TaskResultManager.storeResults(
+          taskResponse.output.task_id,
+          completedTask,
+          { signal }
+        );
         
         if (completedTask.output.task_status !== 'SUCCEEDED' || !completedTask.output.results) {
           throw new Error('图片生成失败');
         }        
-        const imageUrl = completedTask.output.results[0].url;
-        if (!imageUrl) {
+        if (!completedTask.output.results[0].url) {
           throw new Error('图片生成成功但未返回图片URL');
         }
-
-        // 保存图片
-        const savedImage = await this.imageStorage.downloadAndStore(
-          imageUrl,
-          prompt,
-          { 
-            model: 'wanx2.1-t2i-turbo',
-            size: options.size || '1024*1024',
-            task_id: taskResponse.output.task_id,
-            actualPrompt: prompt
-          }
-        );
+        if (!savedImage) {
+          throw new Error('图片下载存储失败');
+        }
 
         // 创建版本记录
         await ImageVersionManager.createVersion(
@@ -280,7 +315,9 @@ export class BatchOperationManager {
           result.variants = await this.generateVariants(
             savedImage.id,
             prompt,
-            options.variant_types
+            options.variant_types,
+            signal,
+            source
           );
         }
 
@@ -288,6 +325,9 @@ export class BatchOperationManager {
 
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
+        if (signal.aborted) {
+          break;
+        }
         attempt++;
         
         if (attempt <= retryCount) {
@@ -306,11 +346,16 @@ export class BatchOperationManager {
   private static async generateVariants(
     baseImageId: string,
     basePrompt: string,
-    variantTypes: string[]
+    variantTypes: string[],
+    signal: AbortSignal,
+    source: TaskSource
   ): Promise<{ variantId: string; filePath: string }[]> {
     const variants: { variantId: string; filePath: string }[] = [];
 
     for (const variantType of variantTypes) {
+      if (signal.aborted) {
+        break;
+      }
       try {
         const variantPrompts = ImageVersionManager.generateVariantPrompts(
           basePrompt,
@@ -327,33 +372,35 @@ export class BatchOperationManager {
             `${variantType} 变体`,
             variantPrompt
           );          // 生成变体图片
-          const variantTaskResponse = await this.tongyiService.createTextToImageTask({
-            model: 'wanx2.1-t2i-turbo',
+          const variantParams = {
+            model: modelRegistry.getDefaultModel('text-to-image').name,
             prompt: finalPrompt,
             size: '1024*1024',
             n: 1,
             prompt_extend: true,
             watermark: false
-          });
+          };
+          const variantTaskResponse = await this.tongyiService.createTextToImageTask(variantParams);
+          TaskResultManager.trackTask(variantTaskResponse.output.task_id, 'text_to_image', variantParams, source, variantTaskResponse.fallback);
           
-          const variantCompletedTask = await this.tongyiService.waitForTaskCompletion(variantTaskResponse.output.task_id);
+          const variantCompletedTask = await this.tongyiService.waitForTaskCompletion(
+            variantTaskResponse.output.task_id,
+            undefined,
+            undefined,
+            { signal }
+          );
+          const [savedVariant] = await TaskResultManager.storeResults(
+            variantTaskResponse.output.task_id,
+            variantCompletedTask,
+            { signal }
+          );
             if (variantCompletedTask.output.task_status === 'SUCCEEDED' && variantCompletedTask.output.results) {
-            const variantImageUrl = variantCompletedTask.output.results[0].url;
-            if (!variantImageUrl) {
-              Logger.warn(`变体图片生成成功但未返回URL: ${variantType}`);
+            if (!savedVariant) {
+              Logger.warn(`变体图片生成成功但未能存储: ${variantType}`);
               continue;
             }
             
-            const savedVariant = await this.imageStorage.downloadAndStore(
-              variantImageUrl,
-              finalPrompt,
-              {
-                model: 'wanx2.1-t2i-turbo',
-                size: '1024*1024',
-                task_id: variantTaskResponse.output.task_id,
-                actualPrompt: finalPrompt
-              }
-            );            variants.push({
+            variants.push({
               variantId,
               filePath: savedVariant.localPath || savedVariant.resourceUri
             });
@@ -384,6 +431,9 @@ export class BatchOperationManager {
     if (task.status === 'pending' || task.status === 'running') {
       task.status = 'cancelled';
       task.completedAt = Date.now();
+      task.progress.current = undefined;
+      // 中止正在进行的轮询和下载，并尽量取消排队中的远端任务
+      this.abortControllers.get(taskId)?.abort();
       Logger.info(`取消批量任务: ${taskId}`);
       return true;
     }
@@ -6,3 +6,6 @@ export * from './prompt/index.js';
 export * from './versioning/index.js';
 export * from './batch/index.js';
 export * from './workflow/index.js';
+export * from './tasks/index.js';
+export * from './usage/index.js';
+export * from './mask/index.js';
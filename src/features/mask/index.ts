@@ -0,0 +1,13 @@
+/**
+ * 遮罩生成功能导出
+ */
+
+export {
+  MaskBuilder,
+  CreateMaskSchema,
+  ExtractMaskSchema,
+  MaskExtractionMode,
+  MaskShapeSchema,
+  MaskShape,
+  MaskResult
+} from './mask-builder.js';
@@ -0,0 +1,453 @@
+/**
+ * 遮罩生成模块
+ * 按基础图像的尺寸，将矩形、椭圆、多边形和画笔路径绘制为局部重绘使用的黑白遮罩 PNG（白色为编辑区域），
+ * 或从设计师用纯色涂抹标注的图像中提取遮罩
+ */
+
+import { z } from 'zod';
+import { Logger, TongyiError, encodePng, decodePng, DecodedPng, PngColorType, readImageSize } from '../../infrastructure/index.js';
+import { ImageStorage, StoredImage } from '../../core/index.js';
+
+const PointSchema = z.tuple([z.number(), z.number()]);
+
+export const MaskShapeSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('rect'),
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive("矩形宽度必须大于 0"),
+    height: z.number().positive("矩形高度必须大于 0")
+  }),
+  z.object({
+    type: z.literal('ellipse'),
+    cx: z.number(),
+    cy: z.number(),
+    rx: z.number().positive("椭圆半径必须大于 0"),
+    ry: z.number().positive("椭圆半径必须大于 0")
+  }),
+  z.object({
+    type: z.literal('polygon'),
+    points: z.array(PointSchema).min(3, "多边形至少需要 3 个顶点")
+  }),
+  z.object({
+    type: z.literal('brush'),
+    points: z.array(PointSchema).min(1, "画笔路径至少需要 1 个点"),
+    size: z.number().positive("画笔粗细必须大于 0")
+  })
+]);
+
+export const CreateMaskSchema = z.object({
+  base_image: z.string().min(1, "基础图像不能为空"),
+  shapes: z.array(MaskShapeSchema)
+    .min(1, "至少需要一个形状")
+    .max(100, "形状数量不能超过100个"),
+  units: z.enum(['pixel', 'relative']).default('pixel'),
+  feather: z.number().min(0).max(200, "羽化半径不能超过200像素").default(0),
+  invert: z.boolean().default(false)
+});
+
+export const ExtractMaskSchema = z.object({
+  annotated_image: z.string().min(1, "标注图像不能为空"),
+  original_image: z.string().min(1, "原图不能为空").optional(),
+  key_color: z.string()
+    .regex(/^#?[0-9a-fA-F]{6}$/, "标注颜色需为 #RRGGBB 格式")
+    .optional(),
+  tolerance: z.number().int().min(0).max(255, "容差不能超过255").optional(),
+  feather: z.number().min(0).max(200, "羽化半径不能超过200像素").default(0),
+  invert: z.boolean().default(false)
+}).refine(data => data.original_image || data.key_color, {
+  message: "需要提供 original_image（与原图对比）或 key_color（按标注颜色提取），也可同时提供",
+  path: ["key_color"]
+});
+
+export type MaskShape = z.infer<typeof MaskShapeSchema>;
+
+export type MaskExtractionMode = 'key_color' | 'difference' | 'key_color_difference';
+
+export interface MaskResult {
+  image: StoredImage;
+  width: number;
+  height: number;
+  /** 白色（编辑）区域占整张图的比例 */
+  coverage: number;
+}
+
+/**
+ * 遮罩尺寸上限（DashScope 图像编辑的输入图像边长不超过 4096）
+ */
+const MAX_MASK_SIDE = 4096;
+
+/**
+ * 默认颜色容差（各通道最大差值）：按标注颜色匹配时允许抗锯齿和轻微色偏，与原图对比时忽略压缩噪点
+ */
+const DEFAULT_KEY_COLOR_TOLERANCE = 48;
+const DEFAULT_DIFFERENCE_TOLERANCE = 24;
+
+export class MaskBuilder {
+  private static imageStorage: ImageStorage;
+
+  static initialize(imageStorage: ImageStorage): void {
+    this.imageStorage = imageStorage;
+  }
+
+  /**
+   * 读取基础图像的尺寸，绘制遮罩并存储
+   */
+  static async createMask(params: z.infer<typeof CreateMaskSchema>, signal?: AbortSignal): Promise<MaskResult> {
+    const { width, height } = await this.readBaseImageSize(params.base_image, signal);
+
+    const mask = this.renderShapes(width, height, params.shapes, params.units);
+    const feathered = params.feather > 0 ? this.feather(mask, width, height, params.feather) : mask;
+    if (params.invert) {
+      for (let i = 0; i < feathered.length; i++) {
+        feathered[i] = 255 - feathered[i];
+      }
+    }
+
+    return this.storeMask(feathered, width, height, params.base_image, 'shapes', signal);
+  }
+
+  /**
+   * 从标注图像中提取遮罩
+   * - 只提供 key_color：与标注颜色相近的像素为编辑区域
+   * - 只提供 original_image：与原图不同的像素为编辑区域
+   * - 同时提供：与原图不同且与标注颜色相近的像素为编辑区域
+   */
+  static async extractMask(
+    params: z.infer<typeof ExtractMaskSchema>,
+    signal?: AbortSignal
+  ): Promise<MaskResult & { mode: MaskExtractionMode }> {
+    const annotated = await this.readPngInput(params.annotated_image, 'annotated_image', signal);
+    const original = params.original_image
+      ? await this.readPngInput(params.original_image, 'original_image', signal)
+      : undefined;
+
+    if (original && (original.width !== annotated.width || original.height !== annotated.height)) {
+      const error = new TongyiError(
+        'VALIDATION_ERROR',
+        `original_image: 原图尺寸 ${original.width}*${original.height} 与标注图像 ${annotated.width}*${annotated.height} 不一致`
+      );
+      error.parameter = 'original_image';
+      error.remediation = '在原图的副本上标注，不要缩放或裁剪';
+      throw error;
+    }
+
+    const keyColor = params.key_color ? this.parseColor(params.key_color) : undefined;
+    const mode: MaskExtractionMode = keyColor ? (original ? 'key_color_difference' : 'key_color') : 'difference';
+    const tolerance = params.tolerance ?? (keyColor ? DEFAULT_KEY_COLOR_TOLERANCE : DEFAULT_DIFFERENCE_TOLERANCE);
+
+    const { width, height } = annotated;
+    let mask: Uint8Array = new Uint8Array(width * height);
+    for (let i = 0; i < mask.length; i++) {
+      const p = i * 4;
+      // 透明像素视为未标注
+      if (annotated.pixels[p + 3] < 128) {
+        continue;
+      }
+      const matchesKey = !keyColor || this.colorDistance(annotated.pixels, p, keyColor) <= tolerance;
+      const changed = !original || this.colorDistance(annotated.pixels, p, original.pixels, p) > tolerance;
+      if (matchesKey && changed) {
+        mask[i] = 255;
+      }
+    }
+
+    if (params.feather > 0) {
+      mask = this.feather(mask, width, height, params.feather);
+    }
+    if (params.invert) {
+      for (let i = 0; i < mask.length; i++) {
+        mask[i] = 255 - mask[i];
+      }
+    }
+
+    // 遮罩对应的基础图像是原图；单图模式下标注图像本身已被涂抹，记录其来源供追溯
+    const baseImage = params.original_image ?? params.annotated_image;
+    const result = await this.storeMask(mask, width, height, baseImage, 'annotation', signal);
+    return { ...result, mode };
+  }
+
+  /**
+   * 将单通道遮罩编码为 PNG 并存储
+   */
+  static async storeMask(
+    mask: Uint8Array,
+    width: number,
+    height: number,
+    baseImage: string,
+    method: 'shapes' | 'annotation',
+    signal?: AbortSignal
+  ): Promise<MaskResult> {
+    let total = 0;
+    for (let i = 0; i < mask.length; i++) {
+      total += mask[i];
+    }
+    const coverage = Math.round((total / 255 / mask.length) * 10000) / 10000;
+
+    const png = encodePng(width, height, mask, PngColorType.GRAYSCALE);
+    const image = await this.imageStorage.storeImageBuffer(png, '.png', `遮罩: ${baseImage}`, {
+      model: 'mask',
+      size: `${width}*${height}`,
+      mask: { baseImage, method, coverage }
+    }, { folder: 'images/masks', signal });
+
+    Logger.info(`遮罩已生成: ${image.id}，${width}*${height}，编辑区域占比 ${(coverage * 100).toFixed(1)}%`);
+    return { image, width, height, coverage };
+  }
+
+  /**
+   * 读取基础图像的尺寸
+   */
+  static async readBaseImageSize(baseImage: string, signal?: AbortSignal): Promise<{ width: number; height: number }> {
+    const data = await this.imageStorage.readImageInput(baseImage, 'base_image', signal);
+    const size = readImageSize(data);
+    if (!size) {
+      const error = new TongyiError('VALIDATION_ERROR', 'base_image: 无法识别基础图像的格式');
+      error.parameter = 'base_image';
+      error.remediation = '使用 PNG、JPEG、WEBP、BMP 或 GIF 格式的图片';
+      throw error;
+    }
+    if (size.width > MAX_MASK_SIDE || size.height > MAX_MASK_SIDE || size.width === 0 || size.height === 0) {
+      const error = new TongyiError('VALIDATION_ERROR', `base_image: 图像尺寸 ${size.width}*${size.height} 超出范围`);
+      error.parameter = 'base_image';
+      error.remediation = `使用边长不超过 ${MAX_MASK_SIDE} 像素的图像`;
+      throw error;
+    }
+    return size;
+  }
+
+  /**
+   * 读取并解码 PNG 输入；标注颜色需要无损格式，其他格式给出明确的错误
+   */
+  private static async readPngInput(input: string, parameter: string, signal?: AbortSignal): Promise<DecodedPng> {
+    const data = await this.imageStorage.readImageInput(input, parameter, signal);
+    const size = readImageSize(data);
+
+    if (size?.format !== 'png') {
+      const error = new TongyiError(
+        'VALIDATION_ERROR',
+        `${parameter}: 仅支持 PNG 格式的标注图像${size ? `（当前为 ${size.format.toUpperCase()}）` : ''}`
+      );
+      error.parameter = parameter;
+      error.remediation = '将图像导出为 PNG，JPEG 等有损压缩会改变标注颜色和边缘';
+      throw error;
+    }
+    if (size.width > MAX_MASK_SIDE || size.height > MAX_MASK_SIDE) {
+      const error = new TongyiError('VALIDATION_ERROR', `${parameter}: 图像尺寸 ${size.width}*${size.height} 超出范围`);
+      error.parameter = parameter;
+      error.remediation = `使用边长不超过 ${MAX_MASK_SIDE} 像素的图像`;
+      throw error;
+    }
+
+    try {
+      return decodePng(data);
+    } catch (decodeError) {
+      const error = new TongyiError(
+        'VALIDATION_ERROR',
+        `${parameter}: PNG 解码失败: ${decodeError instanceof Error ? decodeError.message : String(decodeError)}`,
+        undefined,
+        decodeError
+      );
+      error.parameter = parameter;
+      error.remediation = '使用非交错存储的 PNG 重新导出图像';
+      throw error;
+    }
+  }
+
+  private static parseColor(hex: string): Uint8Array {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return Uint8Array.of((value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+  }
+
+  /**
+   * 像素与颜色的差值（RGB 各通道差值的最大值）
+   */
+  private static colorDistance(pixels: Uint8Array, offset: number, color: Uint8Array, colorOffset = 0): number {
+    return Math.max(
+      Math.abs(pixels[offset] - color[colorOffset]),
+      Math.abs(pixels[offset + 1] - color[colorOffset + 1]),
+      Math.abs(pixels[offset + 2] - color[colorOffset + 2])
+    );
+  }
+
+  /**
+   * 按像素中心是否落在形状内绘制遮罩，多个形状取并集
+   */
+  private static renderShapes(
+    width: number,
+    height: number,
+    shapes: MaskShape[],
+    units: 'pixel' | 'relative'
+  ): Uint8Array {
+    const mask = new Uint8Array(width * height);
+    // 相对坐标按宽高换算，长度（画笔粗细）按短边换算
+    const sx = units === 'relative' ? width : 1;
+    const sy = units === 'relative' ? height : 1;
+    const scale = units === 'relative' ? Math.min(width, height) : 1;
+    const toPixels = (points: Array<[number, number]>) => points.map(([x, y]) => [x * sx, y * sy] as [number, number]);
+
+    for (const shape of shapes) {
+      switch (shape.type) {
+        case 'rect':
+          this.fillRect(mask, width, height, shape.x * sx, shape.y * sy, shape.width * sx, shape.height * sy);
+          break;
+        case 'ellipse':
+          this.fillEllipse(mask, width, height, shape.cx * sx, shape.cy * sy, shape.rx * sx, shape.ry * sy);
+          break;
+        case 'polygon':
+          this.fillPolygon(mask, width, height, toPixels(shape.points));
+          break;
+        case 'brush':
+          this.strokeBrush(mask, width, height, toPixels(shape.points), shape.size * scale);
+          break;
+      }
+    }
+
+    return mask;
+  }
+
+  private static fillRect(mask: Uint8Array, width: number, height: number, x: number, y: number, w: number, h: number): void {
+    const [x0, x1] = this.pixelRange(x, x + w, width);
+    const [y0, y1] = this.pixelRange(y, y + h, height);
+    for (let py = y0; py < y1; py++) {
+      mask.fill(255, py * width + x0, py * width + x1);
+    }
+  }
+
+  private static fillEllipse(
+    mask: Uint8Array,
+    width: number,
+    height: number,
+    cx: number,
+    cy: number,
+    rx: number,
+    ry: number
+  ): void {
+    const [x0, x1] = this.pixelRange(cx - rx, cx + rx, width);
+    const [y0, y1] = this.pixelRange(cy - ry, cy + ry, height);
+    for (let py = y0; py < y1; py++) {
+      const dy = (py + 0.5 - cy) / ry;
+      for (let px = x0; px < x1; px++) {
+        const dx = (px + 0.5 - cx) / rx;
+        if (dx * dx + dy * dy <= 1) {
+          mask[py * width + px] = 255;
+        }
+      }
+    }
+  }
+
+  /**
+   * 扫描线填充多边形（奇偶规则）
+   */
+  private static fillPolygon(mask: Uint8Array, width: number, height: number, points: Array<[number, number]>): void {
+    const ys = points.map(([, y]) => y);
+    const [y0, y1] = this.pixelRange(Math.min(...ys), Math.max(...ys), height);
+
+    for (let py = y0; py < y1; py++) {
+      const cy = py + 0.5;
+      const crossings: number[] = [];
+      for (let i = 0; i < points.length; i++) {
+        const [ax, ay] = points[i];
+        const [bx, by] = points[(i + 1) % points.length];
+        if ((ay <= cy && by > cy) || (by <= cy && ay > cy)) {
+          crossings.push(ax + ((cy - ay) / (by - ay)) * (bx - ax));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const [x0, x1] = this.pixelRange(crossings[i], crossings[i + 1], width);
+        mask.fill(255, py * width + x0, py * width + x1);
+      }
+    }
+  }
+
+  /**
+   * 画笔路径：到折线距离不超过画笔半径的像素
+   */
+  private static strokeBrush(
+    mask: Uint8Array,
+    width: number,
+    height: number,
+    points: Array<[number, number]>,
+    size: number
+  ): void {
+    const radius = size / 2;
+    const segments = points.length === 1 ? [[points[0], points[0]]] : points.slice(1).map((point, i) => [points[i], point]);
+
+    for (const [[ax, ay], [bx, by]] of segments) {
+      const [x0, x1] = this.pixelRange(Math.min(ax, bx) - radius, Math.max(ax, bx) + radius, width);
+      const [y0, y1] = this.pixelRange(Math.min(ay, by) - radius, Math.max(ay, by) + radius, height);
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy;
+
+      for (let py = y0; py < y1; py++) {
+        for (let px = x0; px < x1; px++) {
+          const cx = px + 0.5;
+          const cy = py + 0.5;
+          const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((cx - ax) * dx + (cy - ay) * dy) / lengthSquared));
+          const ex = cx - (ax + t * dx);
+          const ey = cy - (ay + t * dy);
+          if (ex * ex + ey * ey <= radius * radius) {
+            mask[py * width + px] = 255;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * 像素中心位于 [start, end) 内的像素下标范围，限制在图像范围内
+   */
+  private static pixelRange(start: number, end: number, limit: number): [number, number] {
+    const from = Math.max(0, Math.ceil(start - 0.5));
+    const to = Math.min(limit, Math.ceil(end - 0.5));
+    return [from, Math.max(from, to)];
+  }
+
+  /**
+   * 羽化边缘：三次水平+垂直方框模糊，近似半径为 radius 的高斯模糊
+   */
+  private static feather(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+    const boxRadius = Math.max(1, Math.round(radius / 3));
+    let current: Float32Array = Float32Array.from(mask);
+    for (let pass = 0; pass < 3; pass++) {
+      current = this.boxBlur(current, width, height, boxRadius, true);
+      current = this.boxBlur(current, width, height, boxRadius, false);
+    }
+    return Uint8Array.from(current, value => Math.round(value));
+  }
+
+  /**
+   * 一维方框模糊（滑动窗口求和，边缘按最近像素延伸）
+   */
+  private static boxBlur(
+    source: Float32Array,
+    width: number,
+    height: number,
+    radius: number,
+    horizontal: boolean
+  ): Float32Array {
+    const target = new Float32Array(source.length);
+    const lines = horizontal ? height : width;
+    const length = horizontal ? width : height;
+    const stride = horizontal ? 1 : width;
+    const window = radius * 2 + 1;
+
+    for (let line = 0; line < lines; line++) {
+      const base = horizontal ? line * width : line;
+      const at = (i: number) => source[base + Math.max(0, Math.min(length - 1, i)) * stride];
+
+      let sum = 0;
+      for (let i = -radius; i <= radius; i++) {
+        sum += at(i);
+      }
+      for (let i = 0; i < length; i++) {
+        target[base + i * stride] = sum / window;
+        sum += at(i + radius + 1) - at(i - radius);
+      }
+    }
+
+    return target;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * 任务结果管理功能导出
+ */
+
+export {
+  TaskResultManager,
+  RetrieveTaskResultsSchema,
+  TaskKind,
+  StoreResultsOptions,
+  RetrieveResultsOptions,
+  RetrieveResultsOutcome
+} from './task-result-manager.js';
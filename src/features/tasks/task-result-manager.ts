@@ -0,0 +1,358 @@
+/**
+ * 任务结果管理模块
+ * 通过任务日志记录已创建的任务，统一下载存储任务结果，并在服务重启后恢复未完成的任务
+ */
+
+import { z } from 'zod';
+import { Logger } from '../../infrastructure/index.js';
+import {
+  TongyiWanxService,
+  ImageStorage,
+  StoredImage,
+  StoredTaskRecord,
+  StorageStage,
+  TaskSource,
+  QueryTaskResponse,
+  ModelFallback,
+  TASK_STATUS
+} from '../../core/index.js';
+import { UsageLedger, BudgetManager } from '../usage/index.js';
+
+export type TaskKind = 'text_to_image' | 'image_edit';
+
+export const RetrieveTaskResultsSchema = z.object({
+  task_id: z.string().min(1, "任务ID不能为空"),
+  wait_for_completion: z.boolean().default(true)
+});
+
+export interface StoreResultsOptions {
+  /** 每张图片进入下载/上传阶段时回调 */
+  onImageStage?: (index: number, total: number, stage: StorageStage) => void;
+  signal?: AbortSignal;
+}
+
+export interface RetrieveResultsOptions extends StoreResultsOptions {
+  /** 任务未完成时是否等待完成，否则只查询一次 */
+  wait?: boolean;
+  onStatusChange?: (status: string) => void;
+}
+
+export interface RetrieveResultsOutcome {
+  status: string;
+  images: StoredImage[];
+  /** 结果在此前已全部存储，本次未访问远端 */
+  alreadyStored: boolean;
+  record?: StoredTaskRecord;
+  result?: QueryTaskResponse;
+}
+
+/**
+ * DashScope 任务结果 URL 的有效期
+ */
+const RESULT_URL_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 远端任务的终态（UNKNOWN 表示任务已不存在或已过期）
+ */
+const FINAL_STATUSES: string[] = [
+  TASK_STATUS.SUCCEEDED,
+  TASK_STATUS.FAILED,
+  TASK_STATUS.CANCELED,
+  TASK_STATUS.UNKNOWN
+];
+
+export class TaskResultManager {
+  private static tongyiService: TongyiWanxService;
+  private static imageStorage: ImageStorage;
+  /** 正在下载存储结果的任务，同一任务的并发调用共享同一次存储 */
+  private static pendingStores: Map<string, Promise<StoredImage[]>> = new Map();
+
+  /**
+   * 初始化任务结果管理器
+   */
+  static initialize(
+    tongyiService: TongyiWanxService,
+    imageStorage: ImageStorage
+  ): void {
+    this.tongyiService = tongyiService;
+    this.imageStorage = imageStorage;
+
+    // 恢复有效期内任务所在的区域，避免重启后查询任务时逐个区域查找
+    const now = Date.now();
+    for (const record of imageStorage.getAllTaskRecords()) {
+      const createdAt = record.createdAt ?? record.updatedAt;
+      if (record.region && now - createdAt <= RESULT_URL_TTL_MS) {
+        tongyiService.restoreTaskRegion(record.taskId, record.region, createdAt);
+      }
+    }
+
+    Logger.info('任务结果管理器初始化成功');
+  }
+
+  /**
+   * 将新创建的任务写入任务日志，source 记录发起任务的工具和客户端，用于用量统计
+   * fallback 为服务改用备用模型时的降级信息，任务记录的模型和参数以实际使用的模型为准
+   */
+  static trackTask(
+    taskId: string,
+    kind: TaskKind,
+    params: { prompt: string; model: string } & Record<string, any>,
+    source?: TaskSource,
+    fallback?: ModelFallback
+  ): void {
+    // 合并的重复请求会得到同一个任务，保留最早的记录
+    if (this.imageStorage.getTaskRecord(taskId)) {
+      return;
+    }
+    const actualParams = fallback ? { ...params, model: fallback.model } : params;
+    this.imageStorage.recordTaskCreation(taskId, {
+      kind,
+      prompt: params.prompt,
+      model: actualParams.model,
+      params: actualParams,
+      source,
+      fallback,
+      region: this.tongyiService.getTaskRegion(taskId)
+    });
+  }
+
+  /**
+   * 记录任务最终状态；任务成功时下载并存储结果图片
+   * 结果已全部存储过的任务直接返回已有图片，不会重复下载
+   */
+  static async storeResults(
+    taskId: string,
+    result: QueryTaskResponse,
+    options: StoreResultsOptions = {}
+  ): Promise<StoredImage[]> {
+    const status = result.output.task_status;
+    const record = this.imageStorage.getTaskRecord(taskId);
+
+    if (status !== TASK_STATUS.SUCCEEDED) {
+      if (FINAL_STATUSES.includes(status)) {
+        this.imageStorage.updateTaskRecord(taskId, {
+          status,
+          completedAt: Date.now(),
+          error: result.output.message || result.output.results?.[0]?.message
+        });
+        BudgetManager.release(taskId);
+      }
+      return [];
+    }
+
+    this.recordUsage(taskId, record, result);
+
+    const existingImages = this.imageStorage.getImagesByTaskId(taskId);
+    if (record?.resultsStored && existingImages.length > 0) {
+      Logger.debug(`任务 ${taskId} 的结果已存储，跳过下载`);
+      return existingImages;
+    }
+
+    const pending = this.pendingStores.get(taskId);
+    if (pending) {
+      Logger.debug(`任务 ${taskId} 的结果正在存储，等待完成`);
+      try {
+        return await pending;
+      } catch (error) {
+        // 另一个调用被取消时由本次调用继续存储
+        if (options.signal?.aborted) {
+          throw error;
+        }
+      }
+    }
+
+    const store = this.downloadResults(taskId, result, options);
+    this.pendingStores.set(taskId, store);
+    try {
+      return await store;
+    } finally {
+      if (this.pendingStores.get(taskId) === store) {
+        this.pendingStores.delete(taskId);
+      }
+    }
+  }
+
+  /**
+   * 下载存储任务结果图片，之前已存储的图片不再重复下载
+   */
+  private static async downloadResults(
+    taskId: string,
+    result: QueryTaskResponse,
+    options: StoreResultsOptions
+  ): Promise<StoredImage[]> {
+    const status = result.output.task_status;
+    const record = this.imageStorage.getTaskRecord(taskId);
+    const existingImages = this.imageStorage.getImagesByTaskId(taskId);
+    const results = result.output.results || [];
+    const urls = results.map(r => r.url).filter((url): url is string => !!url);
+    const storedImages: StoredImage[] = [];
+    let lastError: string | undefined;
+
+    for (const [index, url] of urls.entries()) {
+      // 之前部分存储成功的图片不再重复下载
+      const existing = existingImages.find(image => image.originalUrl === url);
+      if (existing) {
+        storedImages.push(existing);
+        continue;
+      }
+
+      try {
+        const storedImage = await this.imageStorage.downloadAndStore(
+          url,
+          record?.prompt || results[index]?.orig_prompt || '',
+          this.buildImageMetadata(taskId, record, results[index]?.actual_prompt),
+          {
+            onStage: stage => options.onImageStage?.(index, urls.length, stage),
+            signal: options.signal
+          }
+        );
+        storedImages.push(storedImage);
+        Logger.info(`图片存储成功: ${storedImage.filename}`);
+      } catch (error) {
+        // 已取消时不再处理剩余图片
+        if (options.signal?.aborted) {
+          throw error;
+        }
+        lastError = error instanceof Error ? error.message : String(error);
+        Logger.error('图片存储失败', error);
+        // 继续处理其他图片
+      }
+    }
+
+    this.imageStorage.updateTaskRecord(taskId, {
+      status,
+      completedAt: record?.completedAt || Date.now(),
+      resultsStored: urls.length > 0 && storedImages.length === urls.length,
+      imageIds: storedImages.map(image => image.id),
+      error: lastError
+    });
+
+    return storedImages;
+  }
+
+  /**
+   * 获取任务结果并存储，可重复调用：已存储的结果直接返回
+   */
+  static async retrieveResults(
+    taskId: string,
+    options: RetrieveResultsOptions = {}
+  ): Promise<RetrieveResultsOutcome> {
+    const record = this.imageStorage.getTaskRecord(taskId);
+    const storedImages = this.imageStorage.getImagesByTaskId(taskId);
+
+    if (record?.resultsStored && storedImages.length > 0) {
+      return {
+        status: record.status,
+        images: storedImages,
+        alreadyStored: true,
+        record
+      };
+    }
+
+    let result: QueryTaskResponse;
+    if (options.wait) {
+      result = await this.tongyiService.waitForTaskCompletion(taskId, undefined, undefined, {
+        onStatusChange: options.onStatusChange,
+        signal: options.signal
+      });
+    } else {
+      result = await this.tongyiService.queryTask(taskId, options.signal);
+      options.onStatusChange?.(result.output.task_status);
+    }
+
+    const images = await this.storeResults(taskId, result, options);
+    return {
+      status: result.output.task_status,
+      images,
+      alreadyStored: false,
+      record: this.imageStorage.getTaskRecord(taskId),
+      result
+    };
+  }
+
+  /**
+   * 恢复任务日志中尚未完成的任务：继续轮询，并下载重启期间已完成任务的结果
+   */
+  static async resumeInFlightTasks(): Promise<void> {
+    const now = Date.now();
+    const pending = this.imageStorage.getAllTaskRecords().filter(record =>
+      !FINAL_STATUSES.includes(record.status) ||
+      (record.status === TASK_STATUS.SUCCEEDED && !record.resultsStored)
+    );
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    Logger.info(`恢复 ${pending.length} 个未完成的任务`);
+
+    await Promise.allSettled(pending.map(async record => {
+      // 超过有效期的任务结果已无法下载
+      if (now - (record.createdAt ?? record.updatedAt) > RESULT_URL_TTL_MS) {
+        this.imageStorage.updateTaskRecord(record.taskId, {
+          status: TASK_STATUS.UNKNOWN,
+          error: '任务结果已超过24小时有效期，无法恢复'
+        });
+        return;
+      }
+
+      try {
+        const result = await this.tongyiService.waitForTaskCompletion(record.taskId);
+        const storedImages = await this.storeResults(record.taskId, result);
+        Logger.info(`任务 ${record.taskId} 已恢复: ${result.output.task_status}，存储 ${storedImages.length} 张图片`);
+      } catch (error) {
+        Logger.error(`恢复任务失败: ${record.taskId}`, error);
+      }
+    }));
+  }
+
+  /**
+   * 将成功的任务计入用量记录（按任务去重，重复存储不会重复计数）
+   */
+  private static recordUsage(
+    taskId: string,
+    record: StoredTaskRecord | undefined,
+    result: QueryTaskResponse
+  ): void {
+    const params = record?.params || {};
+    UsageLedger.record(taskId, {
+      kind: record?.kind || 'text_to_image',
+      model: record?.model || 'unknown',
+      function: params.function,
+      imageCount: result.usage?.image_count ?? result.output.results?.filter(r => r.url).length ?? 0,
+      size: params.size
+    }, record?.source);
+  }
+
+  /**
+   * 按任务类型构建图片存储元数据
+   */
+  private static buildImageMetadata(
+    taskId: string,
+    record: StoredTaskRecord | undefined,
+    actualPrompt?: string
+  ): Record<string, any> {
+    const params = record?.params || {};
+    const generation = record?.kind ? { kind: record.kind, ...params } : undefined;
+
+    if (record?.kind === 'image_edit') {
+      return {
+        model: record.model,
+        function: params.function,
+        base_image_url: params.base_image_url,
+        task_id: taskId,
+        editType: params.function,
+        generation
+      };
+    }
+
+    return {
+      model: record?.model,
+      size: params.size,
+      task_id: taskId,
+      actualPrompt,
+      generation,
+      ...(record?.fallback && { fallback: record.fallback })
+    };
+  }
+}
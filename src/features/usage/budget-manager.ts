@@ -0,0 +1,296 @@
+/**
+ * 预算控制模块
+ * 在任务提交前按自然日/自然月检查全局和按模型的图片数量、费用预算，超出时拒绝提交。
+ * 已用量 = 用量记录 + 任务日志中尚未结束的任务 + 正在提交的请求，重启后未结束的任务仍计入预算
+ */
+
+import { z } from 'zod';
+import { Config, Logger, TongyiError } from '../../infrastructure/index.js';
+import { TongyiWanxService, ImageStorage, SubmitRequest, SubmitReservation, TASK_STATUS } from '../../core/index.js';
+import { UsageLedger } from './usage-ledger.js';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'images' | 'cost';
+
+/**
+ * 单个模型的预算配置（BUDGET_MODEL_LIMITS 中的值）
+ */
+const ModelBudgetSchema = z.object({
+  daily_images: z.number().int().min(0).optional(),
+  monthly_images: z.number().int().min(0).optional(),
+  daily_cost: z.number().min(0).optional(),
+  monthly_cost: z.number().min(0).optional()
+});
+
+const ModelBudgetLimitsSchema = z.record(ModelBudgetSchema);
+
+/**
+ * 一条预算限制
+ */
+interface BudgetLimit {
+  scope: 'global' | 'model';
+  model?: string;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit: number;
+}
+
+/**
+ * 已预留但尚未写入任务日志的提交（正在提交，或已创建任务但尚未记录）
+ */
+interface PendingReservation {
+  model: string;
+  images: number;
+  cost: number;
+  createdAt: number;
+  taskId?: string;
+}
+
+export interface BudgetStatus {
+  scope: 'global' | 'model';
+  model?: string;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+/**
+ * 预留超过该时长仍未写入任务日志时不再占用预算
+ */
+const PENDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 尚未结束的任务状态：任务日志中处于这些状态且未计入用量记录的任务占用预算
+ */
+const OUTSTANDING_STATUSES: string[] = [TASK_STATUS.PENDING, TASK_STATUS.RUNNING];
+
+export class BudgetManager {
+  private static limits: BudgetLimit[] = [];
+  private static imageStorage: ImageStorage;
+  private static pending: Map<number, PendingReservation> = new Map();
+  private static nextReservationId = 1;
+  /** 已发出的阈值警告，按 预算 + 周期起点 + 阈值 去重 */
+  private static warned: Set<string> = new Set();
+
+  /**
+   * 初始化预算配置，并在服务提交任务前进行预算检查
+   */
+  static initialize(tongyiService: TongyiWanxService, imageStorage: ImageStorage): void {
+    this.imageStorage = imageStorage;
+    this.limits = [];
+    this.pending = new Map();
+    this.warned = new Set();
+
+    const global = {
+      daily_images: Config.BUDGET_DAILY_IMAGES,
+      monthly_images: Config.BUDGET_MONTHLY_IMAGES,
+      daily_cost: Config.BUDGET_DAILY_COST,
+      monthly_cost: Config.BUDGET_MONTHLY_COST
+    };
+    this.limits.push(...this.toLimits('global', undefined, global));
+
+    if (Config.BUDGET_MODEL_LIMITS) {
+      const modelLimits = ModelBudgetLimitsSchema.parse(JSON.parse(Config.BUDGET_MODEL_LIMITS));
+      for (const [model, budget] of Object.entries(modelLimits)) {
+        this.limits.push(...this.toLimits('model', model, budget));
+      }
+    }
+
+    tongyiService.setSubmitGuard(request => this.reserve(request));
+    Logger.info(`预算控制初始化成功，共 ${this.limits.length} 项预算限制`);
+  }
+
+  /**
+   * 检查预算并预留本次提交的用量；超出任一预算时抛出 QUOTA_EXCEEDED
+   */
+  static reserve(request: SubmitRequest): SubmitReservation {
+    const images = request.imageCount;
+    const cost = UsageLedger.estimateCost(request.model, images) ?? 0;
+    const now = Date.now();
+
+    for (const limit of this.getApplicableLimits(request.model)) {
+      const used = this.getUsed(limit, now);
+      const requested = limit.metric === 'images' ? images : cost;
+      if (used + requested > limit.limit) {
+        const remaining = Math.max(limit.limit - used, 0);
+        const error = new TongyiError(
+          'QUOTA_EXCEEDED',
+          `超出${this.describeLimit(limit)}: 上限 ${this.format(limit, limit.limit)}，` +
+          `已用 ${this.format(limit, used)}，剩余 ${this.format(limit, remaining)}，本次需要 ${this.format(limit, requested)}`
+        );
+        error.details = {
+          scope: limit.scope,
+          ...(limit.model && { model: limit.model }),
+          period: limit.period,
+          metric: limit.metric,
+          limit: limit.limit,
+          used: this.round(used),
+          requested: this.round(requested),
+          remaining: this.round(remaining)
+        };
+        throw error;
+      }
+    }
+
+    const id = this.nextReservationId++;
+    this.pending.set(id, { model: request.model, images, cost, createdAt: now });
+
+    for (const limit of this.getApplicableLimits(request.model)) {
+      this.checkThresholds(limit, now);
+    }
+
+    return {
+      commit: (taskId: string) => {
+        const reservation = this.pending.get(id);
+        if (reservation) {
+          reservation.taskId = taskId;
+        }
+      },
+      release: () => {
+        this.pending.delete(id);
+      }
+    };
+  }
+
+  /**
+   * 任务失败或取消时释放其预留的用量
+   */
+  static release(taskId: string): void {
+    for (const [id, reservation] of this.pending) {
+      if (reservation.taskId === taskId) {
+        this.pending.delete(id);
+      }
+    }
+  }
+
+  /**
+   * 获取各项预算的使用情况
+   */
+  static getStatus(): BudgetStatus[] {
+    const now = Date.now();
+    return this.limits.map(limit => {
+      const used = this.getUsed(limit, now);
+      return {
+        scope: limit.scope,
+        ...(limit.model && { model: limit.model }),
+        period: limit.period,
+        metric: limit.metric,
+        limit: limit.limit,
+        used: this.round(used),
+        remaining: this.round(Math.max(limit.limit - used, 0))
+      };
+    });
+  }
+
+  private static toLimits(
+    scope: BudgetLimit['scope'],
+    model: string | undefined,
+    budget: z.infer<typeof ModelBudgetSchema>
+  ): BudgetLimit[] {
+    const entries: Array<[BudgetPeriod, BudgetMetric, number | undefined]> = [
+      ['daily', 'images', budget.daily_images],
+      ['monthly', 'images', budget.monthly_images],
+      ['daily', 'cost', budget.daily_cost],
+      ['monthly', 'cost', budget.monthly_cost]
+    ];
+    return entries
+      .filter((entry): entry is [BudgetPeriod, BudgetMetric, number] => entry[2] !== undefined)
+      .map(([period, metric, limit]) => ({ scope, model, period, metric, limit }));
+  }
+
+  private static getApplicableLimits(model: string): BudgetLimit[] {
+    return this.limits.filter(limit => limit.scope === 'global' || limit.model === model);
+  }
+
+  /**
+   * 本周期已用量 = 用量记录 + 任务日志中尚未结束的任务 + 尚未写入任务日志的预留
+   */
+  private static getUsed(limit: BudgetLimit, now: number): number {
+    const periodStart = this.getPeriodStart(limit.period, now);
+    const matches = (model: string) => limit.scope === 'global' || model === limit.model;
+    const measure = (model: string, images: number, cost?: number) =>
+      limit.metric === 'images' ? images : (cost ?? UsageLedger.estimateCost(model, images) ?? 0);
+
+    let used = 0;
+    for (const record of UsageLedger.getRecordsSince(periodStart)) {
+      if (matches(record.model)) {
+        used += measure(record.model, record.imageCount);
+      }
+    }
+
+    // 已创建但尚未完成（或完成后尚未查询）的任务，按任务日志中的模型和图片数量计算
+    for (const record of this.imageStorage.getAllTaskRecords()) {
+      const createdAt = record.createdAt ?? record.updatedAt;
+      if (OUTSTANDING_STATUSES.includes(record.status) && record.model && createdAt >= periodStart &&
+          matches(record.model) && !UsageLedger.hasRecord(record.taskId)) {
+        used += measure(record.model, record.params?.n ?? 1);
+      }
+    }
+
+    for (const [id, reservation] of this.pending) {
+      // 任务写入任务日志后由上面的任务日志计算，不再重复计入
+      if (now - reservation.createdAt > PENDING_TTL_MS ||
+          (reservation.taskId && (this.imageStorage.getTaskRecord(reservation.taskId) ||
+            UsageLedger.hasRecord(reservation.taskId)))) {
+        this.pending.delete(id);
+        continue;
+      }
+      if (reservation.createdAt >= periodStart && matches(reservation.model)) {
+        used += measure(reservation.model, reservation.images, reservation.cost);
+      }
+    }
+
+    return used;
+  }
+
+  /**
+   * 用量达到配置的比例时发出警告，每个周期每个阈值只警告一次（同时越过多个阈值时只警告一次）
+   */
+  private static checkThresholds(limit: BudgetLimit, now: number): void {
+    if (limit.limit <= 0) {
+      return;
+    }
+
+    const used = this.getUsed(limit, now);
+    const periodStart = this.getPeriodStart(limit.period, now);
+    const crossed = Config.BUDGET_WARNING_THRESHOLDS
+      .filter(threshold => used >= limit.limit * threshold)
+      .map(threshold => `${limit.scope}|${limit.model}|${limit.period}|${limit.metric}|${periodStart}|${threshold}`)
+      .filter(key => !this.warned.has(key));
+
+    if (crossed.length > 0) {
+      crossed.forEach(key => this.warned.add(key));
+      Logger.warn(
+        `${this.describeLimit(limit)}已使用 ${Math.round((used / limit.limit) * 100)}%` +
+        `（${this.format(limit, used)}/${this.format(limit, limit.limit)}）`
+      );
+    }
+  }
+
+  /**
+   * 按本地时区计算自然日/自然月的起点
+   */
+  private static getPeriodStart(period: BudgetPeriod, now: number): number {
+    const date = new Date(now);
+    return period === 'daily'
+      ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+      : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+  }
+
+  private static describeLimit(limit: BudgetLimit): string {
+    const scope = limit.scope === 'global' ? '全局' : `模型 ${limit.model} `;
+    const period = limit.period === 'daily' ? '每日' : '每月';
+    const metric = limit.metric === 'images' ? '图片数量' : '费用';
+    return `${scope}${period}${metric}预算`;
+  }
+
+  private static format(limit: BudgetLimit, value: number): string {
+    return limit.metric === 'images' ? `${value} 张` : `${this.round(value)} 元`;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
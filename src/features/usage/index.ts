@@ -0,0 +1,19 @@
+/**
+ * 用量记录功能导出
+ */
+
+export {
+  UsageLedger,
+  UsageReportSchema,
+  UsageRecord,
+  UsageGroupBy,
+  UsageReport,
+  UsageReportGroup
+} from './usage-ledger.js';
+
+export {
+  BudgetManager,
+  BudgetPeriod,
+  BudgetMetric,
+  BudgetStatus
+} from './budget-manager.js';
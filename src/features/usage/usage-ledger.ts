@@ -0,0 +1,279 @@
+/**
+ * 用量记录模块
+ * 持久化记录每次成功的生成/编辑任务，并按日期、模型、工具和客户端汇总用量与预估费用
+ */
+
+import { z } from 'zod';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Config, Logger } from '../../infrastructure/index.js';
+import { modelRegistry, TaskSource } from '../../core/index.js';
+
+/**
+ * 单条用量记录
+ */
+export interface UsageRecord {
+  taskId: string;
+  timestamp: number;
+  /** 任务类型，如 text_to_image、image_edit */
+  kind: string;
+  model: string;
+  /** 图像编辑功能（仅图像编辑任务） */
+  function?: string;
+  imageCount: number;
+  size?: string;
+  tool: string;
+  client?: string;
+  batchId?: string;
+}
+
+export type UsageGroupBy = 'day' | 'model' | 'tool' | 'client';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const UsageReportSchema = z.object({
+  start_date: z.string().regex(DATE_PATTERN, "日期格式应为 YYYY-MM-DD").optional(),
+  end_date: z.string().regex(DATE_PATTERN, "日期格式应为 YYYY-MM-DD").optional(),
+  group_by: z.array(z.enum(['day', 'model', 'tool', 'client'])).min(1).default(['day', 'model', 'tool']),
+  model: z.string().optional(),
+  tool: z.string().optional(),
+  client: z.string().optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+  /** 同时输出明细记录（CSV 格式下输出明细而不是汇总） */
+  include_records: z.boolean().default(false)
+});
+
+export interface UsageReportGroup {
+  day?: string;
+  model?: string;
+  tool?: string;
+  client?: string;
+  tasks: number;
+  images: number;
+  estimatedCost: number;
+}
+
+export interface UsageReport {
+  period: { start?: string; end?: string };
+  groupBy: UsageGroupBy[];
+  currency: string;
+  totals: { tasks: number; images: number; estimatedCost: number };
+  groups: UsageReportGroup[];
+  /** 价格表中没有单价的模型，不计入费用 */
+  unpricedModels: string[];
+  records?: Array<UsageRecord & { date: string; estimatedCost: number }>;
+}
+
+export class UsageLedger {
+  private static readonly LEDGER_FILE = 'usage.json';
+  private static records: Map<string, UsageRecord> = new Map();
+  private static ledgerFile?: string;
+
+  /**
+   * 初始化用量记录，从 IMAGES_DIR 加载已有记录
+   */
+  static initialize(imagesDir: string | undefined = Config.IMAGES_DIR): void {
+    this.records = new Map();
+    this.ledgerFile = imagesDir ? join(imagesDir, this.LEDGER_FILE) : undefined;
+
+    if (this.ledgerFile && existsSync(this.ledgerFile)) {
+      try {
+        const data: UsageRecord[] = JSON.parse(readFileSync(this.ledgerFile, 'utf-8'));
+        for (const record of data) {
+          this.records.set(record.taskId, record);
+        }
+      } catch (error) {
+        Logger.error('加载用量记录失败', error);
+      }
+    }
+
+    Logger.info(`用量记录初始化成功，已有 ${this.records.size} 条记录`);
+  }
+
+  /**
+   * 记录一次成功的任务；同一任务只记录一次
+   */
+  static record(
+    taskId: string,
+    usage: Omit<UsageRecord, 'taskId' | 'timestamp' | 'tool' | 'client' | 'batchId'> & { timestamp?: number },
+    source: TaskSource | undefined
+  ): void {
+    if (this.records.has(taskId)) {
+      return;
+    }
+
+    this.records.set(taskId, {
+      taskId,
+      timestamp: usage.timestamp ?? Date.now(),
+      kind: usage.kind,
+      model: usage.model,
+      function: usage.function,
+      imageCount: usage.imageCount,
+      size: usage.size,
+      tool: source?.tool || usage.kind,
+      client: source?.client,
+      batchId: source?.batchId
+    });
+    this.save();
+  }
+
+  /**
+   * 是否已记录该任务
+   */
+  static hasRecord(taskId: string): boolean {
+    return this.records.has(taskId);
+  }
+
+  /**
+   * 获取指定时间之后的记录
+   */
+  static getRecordsSince(timestamp: number): UsageRecord[] {
+    return Array.from(this.records.values()).filter(record => record.timestamp >= timestamp);
+  }
+
+  /**
+   * 按模型注册表中的单价估算费用，未知模型返回 undefined
+   */
+  static estimateCost(model: string, imageCount: number): number | undefined {
+    const price = modelRegistry.getModel(model)?.pricing.per_image;
+    return price === undefined ? undefined : imageCount * price;
+  }
+
+  /**
+   * 生成用量报告，费用按模型注册表中的单价估算
+   */
+  static getReport(params: z.infer<typeof UsageReportSchema>): UsageReport {
+    const records = Array.from(this.records.values())
+      .filter(record => {
+        const date = this.formatDate(record.timestamp);
+        return (!params.start_date || date >= params.start_date) &&
+          (!params.end_date || date <= params.end_date) &&
+          (!params.model || record.model === params.model) &&
+          (!params.tool || record.tool === params.tool) &&
+          (!params.client || record.client === params.client);
+      })
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const groups = new Map<string, UsageReportGroup>();
+    const unpricedModels = new Set<string>();
+    const totals = { tasks: 0, images: 0, estimatedCost: 0 };
+    const detailed: NonNullable<UsageReport['records']> = [];
+
+    for (const record of records) {
+      const estimated = this.estimateCost(record.model, record.imageCount);
+      if (estimated === undefined) {
+        unpricedModels.add(record.model);
+      }
+      const cost = estimated ?? 0;
+      const dimensions: Record<UsageGroupBy, string> = {
+        day: this.formatDate(record.timestamp),
+        model: record.model,
+        tool: record.tool,
+        client: record.client || 'unknown'
+      };
+
+      const key = params.group_by.map(dimension => dimensions[dimension]).join('|');
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          ...Object.fromEntries(params.group_by.map(dimension => [dimension, dimensions[dimension]])),
+          tasks: 0,
+          images: 0,
+          estimatedCost: 0
+        };
+        groups.set(key, group);
+      }
+
+      group.tasks++;
+      group.images += record.imageCount;
+      group.estimatedCost += cost;
+      totals.tasks++;
+      totals.images += record.imageCount;
+      totals.estimatedCost += cost;
+
+      if (params.include_records) {
+        detailed.push({ ...record, date: dimensions.day, estimatedCost: this.roundCost(cost) });
+      }
+    }
+
+    return {
+      period: { start: params.start_date, end: params.end_date },
+      groupBy: params.group_by,
+      currency: modelRegistry.getDefaultModel('text-to-image').pricing.currency,
+      totals: { ...totals, estimatedCost: this.roundCost(totals.estimatedCost) },
+      groups: Array.from(groups.values()).map(group => ({
+        ...group,
+        estimatedCost: this.roundCost(group.estimatedCost)
+      })),
+      unpricedModels: Array.from(unpricedModels),
+      ...(params.include_records && { records: detailed })
+    };
+  }
+
+  /**
+   * 将报告导出为 CSV：默认输出汇总行，include_records 时输出明细
+   */
+  static toCsv(report: UsageReport): string {
+    if (report.records) {
+      const header = ['date', 'timestamp', 'task_id', 'tool', 'client', 'batch_id', 'kind', 'model', 'function', 'size', 'images', 'estimated_cost', 'currency'];
+      const rows = report.records.map(record => [
+        record.date,
+        new Date(record.timestamp).toISOString(),
+        record.taskId,
+        record.tool,
+        record.client,
+        record.batchId,
+        record.kind,
+        record.model,
+        record.function,
+        record.size,
+        record.imageCount,
+        record.estimatedCost,
+        report.currency
+      ]);
+      return this.buildCsv(header, rows);
+    }
+
+    const header = [...report.groupBy, 'tasks', 'images', 'estimated_cost', 'currency'];
+    const rows = report.groups.map(group => [
+      ...report.groupBy.map(dimension => group[dimension]),
+      group.tasks,
+      group.images,
+      group.estimatedCost,
+      report.currency
+    ]);
+    return this.buildCsv(header, rows);
+  }
+
+  private static buildCsv(header: string[], rows: Array<Array<string | number | undefined>>): string {
+    const escape = (value: string | number | undefined): string => {
+      const text = value === undefined ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [header, ...rows].map(row => row.map(escape).join(',')).join('\n');
+  }
+
+  /**
+   * 按本地时区格式化为 YYYY-MM-DD
+   */
+  private static formatDate(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private static roundCost(cost: number): number {
+    return Math.round(cost * 10000) / 10000;
+  }
+
+  private static save(): void {
+    if (!this.ledgerFile) {
+      return;
+    }
+    try {
+      writeFileSync(this.ledgerFile, JSON.stringify(Array.from(this.records.values()), null, 2));
+    } catch (error) {
+      Logger.error('保存用量记录失败', error);
+    }
+  }
+}
@@ -3,6 +3,7 @@
 import { 
   Server
 } from "@modelcontextprotocol/sdk/server/index.js";
+import { ZodError } from "zod";
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
@@ -18,18 +19,26 @@ import type {
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 
 // 导入优化后的模块 - 使用新的分层结构
-import { Config, Logger, TongyiError } from './infrastructure/index.js';
+import { Config, Logger, TongyiError, ErrorHandler, ProgressReporter } from './infrastructure/index.js';
 import { 
   ImageStorage, 
   StoredImage,
+  StorageStage,
   TongyiWanxService, 
   TextToImageSchema, 
   ImageEditSchema,
   QueryTaskSchema, 
-  SUPPORTED_MODELS, 
-  SUPPORTED_IMAGE_EDIT_MODELS,
-  IMAGE_EDIT_FUNCTIONS,
-  TASK_STATUS 
+  CancelTaskSchema,
+  ListTasksSchema,
+  ResetCircuitBreakerSchema,
+  modelRegistry,
+  ImageEditParams,
+  buildImageEditToolProperties,
+  TASK_STATUS,
+  IdempotencyKeySchema,
+  QueryTaskResponse,
+  DashScopeSimulator,
+  LocalFileServer
 } from './core/index.js';
 import { 
   promptGuides, 
@@ -37,7 +46,15 @@ import {
   isValidCategory,
   PromptOptimizer,
   ImageVersionManager,
-  BatchOperationManager
+  BatchOperationManager,
+  TaskResultManager,
+  RetrieveTaskResultsSchema,
+  UsageLedger,
+  UsageReportSchema,
+  BudgetManager,
+  MaskBuilder,
+  CreateMaskSchema,
+  ExtractMaskSchema
 } from './features/index.js';
 
 // 验证和初始化配置
@@ -54,18 +71,73 @@ Logger.initOSSLogging().catch(error => {
   Logger.error('OSS 日志存储初始化失败', error);
 });
 
+// 测试模式或显式启用时，在 DASHSCOPE_BASE_URL 上运行本地模拟器
+const simulator = Config.SIMULATOR_ENABLE ? new DashScopeSimulator() : null;
+
+// 未启用 OSS 时可通过本地文件服务器为 DashScope 提供图片访问地址
+const fileServer = Config.FILE_SERVER_ENABLE ? new LocalFileServer() : null;
+
 // 初始化服务实例
 const imageStorage = new ImageStorage();
+imageStorage.setFileServer(fileServer);
 const tongyiService = new TongyiWanxService();
 
 // 初始化静态模块
-BatchOperationManager.initialize(tongyiService, imageStorage);
+BatchOperationManager.initialize(tongyiService);
+TaskResultManager.initialize(tongyiService, imageStorage);
+UsageLedger.initialize();
+MaskBuilder.initialize(imageStorage);
+
+try {
+  BudgetManager.initialize(tongyiService, imageStorage);
+} catch (error) {
+  Logger.error('预算配置无效', error);
+  process.exit(1);
+}
 
 // 异步初始化版本管理器
 ImageVersionManager.initialize().catch(error => {
   Logger.error('图像版本管理器初始化失败', error);
 });
 
+// 任务状态的进度通知文案
+const TASK_STATUS_PROGRESS: Record<string, string> = {
+  [TASK_STATUS.PENDING]: '任务排队中',
+  [TASK_STATUS.RUNNING]: '任务生成中',
+  [TASK_STATUS.SUCCEEDED]: '任务已完成',
+  [TASK_STATUS.FAILED]: '任务失败',
+  [TASK_STATUS.CANCELED]: '任务已取消'
+};
+
+/**
+ * 生成图片下载/OSS 上传阶段的进度回调
+ */
+function reportStorageStage(progress: ProgressReporter) {
+  return (index: number, total: number, stage: StorageStage) => {
+    progress.report(stage === 'downloading'
+      ? `正在下载第 ${index + 1}/${total} 张图像`
+      : `正在上传第 ${index + 1}/${total} 张图像到 OSS`);
+  };
+}
+
+/**
+ * 失败任务的错误信息：按错误码归类，附带是否可重试、处理建议和出错的参数
+ */
+function describeTaskFailure(output: QueryTaskResponse['output']) {
+  const failed = output.code ? output : output.results?.find(result => result.code);
+  if (!failed?.code) {
+    return { error_code: output.code };
+  }
+  const error = ErrorHandler.classifyTongyiApiError(failed, '任务执行');
+  return {
+    error_code: failed.code,
+    error_type: error.code,
+    retryable: error.retryable,
+    ...(error.remediation && { remediation: error.remediation }),
+    ...(error.parameter && { parameter: error.parameter })
+  };
+}
+
 // 创建 MCP 服务器
 const server = new Server(
   {
@@ -100,30 +172,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "正向提示词，用来描述生成图像中期望包含的元素和视觉特点。支持中英文，长度不超过800个字符。",
               maxLength: 800
             },
-            model: {
-              type: "string",
-              enum: SUPPORTED_MODELS,
-              default: "wanx2.1-t2i-turbo",
-              description: "选择的模型版本。wanx2.1-t2i-turbo(速度快)、wanx2.1-t2i-plus(细节丰富)、wanx2.0-t2i-turbo(性价比高)"
-            },
+            model: modelRegistry.buildModelProperty('text-to-image'),
             negative_prompt: {
               type: "string",
               description: "反向提示词，描述不希望在图像中看到的内容。长度不超过500个字符。",
               maxLength: 500
             },
-            size: {
-              type: "string",
-              pattern: "^\\d{3,4}\\*\\d{3,4}$",
-              default: "1024*1024",
-              description: "生成图像的分辨率，格式为 宽*高，如 1024*1024。像素范围 [512, 1440]"
-            },
-            n: {
-              type: "integer",
-              minimum: 1,
-              maximum: 4,
-              default: 1,
-              description: "生成图片的数量，取值范围 1-4"
-            },
+            size: modelRegistry.buildSizeProperty('text-to-image'),
+            n: modelRegistry.buildCountProperty('text-to-image'),
             seed: {
               type: "integer",
               minimum: 0,
@@ -144,6 +200,20 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "boolean",
               default: true,
               description: "是否等待任务完成并返回图像URL。false时只返回任务ID"
+            },
+            force_regenerate: {
+              type: "boolean",
+              default: false,
+              description: "指定 seed 时，若已存储过参数完全相同的生成结果会直接返回；设为 true 时强制重新生成"
+            },
+            idempotency_key: {
+              type: "string",
+              maxLength: 128,
+              description: "幂等键（可选）。客户端超时后使用相同的键重试会返回同一个任务，不会重复创建付费任务，有效期24小时"
+            },
+            allow_fallback: {
+              type: "boolean",
+              description: "模型被限流、额度用尽或熔断时是否自动改用备用模型（如 plus → turbo → 2.0 turbo），提交超时不降级，默认启用。响应中的 model 为实际使用的模型"
             }
           },
           required: ["prompt"]
@@ -163,6 +233,83 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ["task_id"]
         }
       },
+      {
+        name: "cancel_task",
+        description: "取消排队中(PENDING)的通义万相任务，避免为错误的提示词付费，并停止本地对该任务的等待",
+        inputSchema: {
+          type: "object",
+          properties: {
+            task_id: {
+              type: "string",
+              description: "要取消的任务ID"
+            },
+            reason: {
+              type: "string",
+              description: "取消原因（可选），会记录到本地存储",
+              maxLength: 200
+            }
+          },
+          required: ["task_id"]
+        }
+      },
+      {
+        name: "list_tasks",
+        description: "按时间范围、状态和模型分页列出历史任务，并与本地存储合并，标记已成功但结果尚未下载的任务。用于客户端断开后找回任务",
+        inputSchema: {
+          type: "object",
+          properties: {
+            start_time: {
+              type: "string",
+              description: "开始时间，格式 YYYYMMDDhhmmss 或 YYYY-MM-DD hh:mm:ss。不填时默认查询最近24小时"
+            },
+            end_time: {
+              type: "string",
+              description: "结束时间，格式同开始时间"
+            },
+            model_name: {
+              type: "string",
+              description: "按模型名称过滤，如 wanx2.1-t2i-turbo"
+            },
+            status: {
+              type: "string",
+              enum: ["PENDING", "RUNNING", "SUCCEEDED", "FAILED", "CANCELED"],
+              description: "按任务状态过滤"
+            },
+            page_no: {
+              type: "number",
+              minimum: 1,
+              default: 1,
+              description: "页码"
+            },
+            page_size: {
+              type: "number",
+              minimum: 1,
+              maximum: 100,
+              default: 10,
+              description: "每页任务数量"
+            }
+          }
+        }
+      },
+      {
+        name: "retrieve_task_results",
+        description: "获取任务结果并下载存储到本地/OSS（与 text_to_image 相同的存储流程，使用创建任务时记录的提示词和模型）。适用于 wait_for_completion=false 创建的任务，可重复调用，已存储的结果不会重复下载",
+        inputSchema: {
+          type: "object",
+          properties: {
+            task_id: {
+              type: "string",
+              description: "任务ID"
+            },
+            wait_for_completion: {
+              type: "boolean",
+              default: true,
+              description: "任务未完成时是否等待完成。false 时只查询一次"
+            }
+          },
+          required: ["task_id"]
+        }
+      },
       {
         name: "get_supported_models",
         description: "获取通义万相支持的模型列表及其说明",
@@ -174,51 +321,92 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: "get_service_status",
-        description: "获取服务状态信息，包括测试模式状态、并发情况等",
+        description: "获取服务状态信息，包括测试模式状态、并发情况、各区域和接口的熔断器状态、预算使用情况等",
         inputSchema: {
           type: "object",
           properties: {},
           additionalProperties: false
         }      },
       {
-        name: "image_edit",
-        description: "使用通义万相进行图像编辑。支持风格化、内容编辑、尺寸优化、上色等多种功能。",
+        name: "reset_circuit_breaker",
+        description: "手动重置熔断器（运维用）：DashScope 接口恢复后立即关闭熔断，无需等待恢复时间。熔断器名称可通过 get_service_status 的 circuitBreakers 查看",
         inputSchema: {
           type: "object",
           properties: {
-            prompt: {
+            name: {
               type: "string",
-              description: "提示词，描述期望的编辑效果。支持中英文，长度不超过800个字符。",
-              maxLength: 800
+              description: "要重置的熔断器名称，如 dashscope.aliyuncs.com/text2image/image-synthesis；不指定则重置全部"
+            }
+          },
+          additionalProperties: false
+        }
+      },
+      {
+        name: "get_usage_report",
+        description: "获取用量报告：按日期、模型、工具和客户端汇总成功生成的图片数量和预估费用（按模型注册表中的单价估算），并返回当前预算使用情况，支持导出 CSV",
+        inputSchema: {
+          type: "object",
+          properties: {
+            start_date: {
+              type: "string",
+              pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+              description: "开始日期（含），格式 YYYY-MM-DD"
             },
-            function: {
+            end_date: {
               type: "string",
-              enum: Object.values(IMAGE_EDIT_FUNCTIONS),
-              description: "图像编辑功能类型"
+              pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+              description: "结束日期（含），格式 YYYY-MM-DD"
             },
-            base_image_url: {
+            group_by: {
+              type: "array",
+              items: { type: "string", enum: ["day", "model", "tool", "client"] },
+              default: ["day", "model", "tool"],
+              description: "汇总维度"
+            },
+            model: {
               type: "string",
-              format: "uri",
-              description: "基础图像的URL地址，必须是公网可访问的地址"
+              description: "按模型过滤"
             },
-            mask_image_url: {
+            tool: {
               type: "string",
-              format: "uri", 
-              description: "遮罩图像URL（仅局部重绘功能需要）。白色区域为编辑区域，黑色区域保持不变"
+              description: "按工具过滤，如 text_to_image、image_edit、batch_generate_images"
             },
-            model: {
+            client: {
               type: "string",
-              enum: SUPPORTED_IMAGE_EDIT_MODELS,
-              default: "wanx2.1-imageedit",
-              description: "图像编辑模型"
+              description: "按 MCP 客户端名称过滤"
             },
-            n: {
-              type: "integer",
-              minimum: 1,
-              maximum: 4,
-              default: 1,
-              description: "生成图片的数量"
+            format: {
+              type: "string",
+              enum: ["json", "csv"],
+              default: "json",
+              description: "输出格式"
             },
+            include_records: {
+              type: "boolean",
+              default: false,
+              description: "是否输出明细记录（CSV 格式下输出明细而不是汇总）"
+            }
+          },
+          additionalProperties: false
+        }
+      },
+      {
+        name: "image_edit",
+        description: "使用通义万相进行图像编辑。支持风格化、内容编辑、尺寸优化、上色等多种功能。",
+        inputSchema: {
+          type: "object",
+          properties: {
+            prompt: {
+              type: "string",
+              description: "提示词，描述期望的编辑效果。支持中英文，长度不超过800个字符。",
+              maxLength: 800
+            },
+            base_image_url: {
+              type: "string",
+              description: "基础图像：公网可访问的URL、tongyi-wanx://images/{id} 资源URI、本地文件路径或 base64 data URI（非公网URL会自动上传后使用）"
+            },
+            model: modelRegistry.buildModelProperty('image-to-image'),
+            n: modelRegistry.buildCountProperty('image-to-image'),
             seed: {
               type: "integer",
               minimum: 0,
@@ -230,61 +418,124 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               default: false,
               description: "是否添加AI生成水印"
             },
-            strength: {
-              type: "number",
-              minimum: 0.0,
-              maximum: 1.0,
-              default: 0.5,
-              description: "图像修改幅度（适用于风格化和指令编辑）"
+            ...buildImageEditToolProperties(),
+            wait_for_completion: {
+              type: "boolean",
+              default: true,
+              description: "是否等待任务完成并返回图像URL"
             },
-            top_scale: {
-              type: "number",
-              minimum: 1.0,
-              maximum: 2.0,
-              default: 1.0,
-              description: "向上扩展比例（扩图功能）"
+            idempotency_key: {
+              type: "string",
+              maxLength: 128,
+              description: "幂等键（可选）。客户端超时后使用相同的键重试会返回同一个任务，不会重复创建付费任务，有效期24小时"
+            }
+          },
+          required: ["prompt", "function", "base_image_url"]
+        }      },
+      {
+        name: "create_mask",
+        description: "按基础图像的尺寸生成局部重绘遮罩（白色为编辑区域，黑色保持不变）。可组合矩形、椭圆、多边形和画笔路径，返回的 mask_image_url 可直接用于 image_edit 的 description_edit_with_mask 功能",
+        inputSchema: {
+          type: "object",
+          properties: {
+            base_image: {
+              type: "string",
+              description: "基础图像：图片ID、tongyi-wanx://images/{id} 资源URI、URL、本地文件路径或 base64 data URI，遮罩尺寸与其一致"
             },
-            bottom_scale: {
-              type: "number",
-              minimum: 1.0,
-              maximum: 2.0,
-              default: 1.0,
-              description: "向下扩展比例（扩图功能）"
+            shapes: {
+              type: "array",
+              minItems: 1,
+              maxItems: 100,
+              description: "遮罩形状列表，多个形状取并集。rect: {x, y, width, height}；ellipse: {cx, cy, rx, ry}；polygon: {points: [[x,y],...]}；brush: {points: [[x,y],...], size}",
+              items: {
+                type: "object",
+                properties: {
+                  type: {
+                    type: "string",
+                    enum: ["rect", "ellipse", "polygon", "brush"],
+                    description: "形状类型"
+                  },
+                  x: { type: "number", description: "矩形左上角横坐标" },
+                  y: { type: "number", description: "矩形左上角纵坐标" },
+                  width: { type: "number", description: "矩形宽度" },
+                  height: { type: "number", description: "矩形高度" },
+                  cx: { type: "number", description: "椭圆中心横坐标" },
+                  cy: { type: "number", description: "椭圆中心纵坐标" },
+                  rx: { type: "number", description: "椭圆水平半径" },
+                  ry: { type: "number", description: "椭圆垂直半径" },
+                  points: {
+                    type: "array",
+                    items: { type: "array", items: { type: "number" }, minItems: 2, maxItems: 2 },
+                    description: "多边形顶点或画笔路径点 [[x, y], ...]"
+                  },
+                  size: { type: "number", description: "画笔粗细（直径）" }
+                },
+                required: ["type"]
+              }
             },
-            left_scale: {
-              type: "number",
-              minimum: 1.0,
-              maximum: 2.0,
-              default: 1.0,
-              description: "向左扩展比例（扩图功能）"
+            units: {
+              type: "string",
+              enum: ["pixel", "relative"],
+              default: "pixel",
+              description: "坐标单位：pixel 为像素；relative 为相对图像宽高的比例(0-1)，画笔粗细相对短边"
             },
-            right_scale: {
+            feather: {
               type: "number",
-              minimum: 1.0,
-              maximum: 2.0,
-              default: 1.0,
-              description: "向右扩展比例（扩图功能）"
-            },
-            upscale_factor: {
-              type: "integer",
-              minimum: 1,
-              maximum: 4,
-              default: 1,
-              description: "超分放大倍数（图像超分功能）"
+              minimum: 0,
+              maximum: 200,
+              default: 0,
+              description: "边缘羽化半径(像素)，使编辑区域与原图过渡更自然"
             },
-            is_sketch: {
+            invert: {
               type: "boolean",
               default: false,
-              description: "输入图像是否为线稿（线稿生图功能）"
+              description: "是否反转遮罩（编辑形状以外的区域）"
+            }
+          },
+          required: ["base_image", "shapes"]
+        }
+      },
+      {
+        name: "extract_mask",
+        description: "从设计师用纯色涂抹标注的图像中提取局部重绘遮罩（白色为编辑区域）。可提供原图和标注副本对比差异，或只提供标注图像和标注颜色，也可两者同时使用。返回的 mask_image_url 可直接用于 image_edit 的 description_edit_with_mask 功能，base_image_url 应使用原图",
+        inputSchema: {
+          type: "object",
+          properties: {
+            annotated_image: {
+              type: "string",
+              description: "标注图像（PNG）：图片ID、tongyi-wanx://images/{id} 资源URI、URL、本地文件路径或 base64 data URI"
             },
-            wait_for_completion: {
+            original_image: {
+              type: "string",
+              description: "未标注的原图（PNG，可选），格式同 annotated_image，尺寸需一致。提供时与原图不同的像素为编辑区域"
+            },
+            key_color: {
+              type: "string",
+              pattern: "^#?[0-9a-fA-F]{6}$",
+              description: "标注颜色（可选），如 #FF00FF。提供时与该颜色相近的像素为编辑区域"
+            },
+            tolerance: {
+              type: "integer",
+              minimum: 0,
+              maximum: 255,
+              description: "颜色容差（RGB 各通道最大差值）。默认按标注颜色匹配时为 48，只与原图对比时为 24"
+            },
+            feather: {
+              type: "number",
+              minimum: 0,
+              maximum: 200,
+              default: 0,
+              description: "边缘羽化半径(像素)"
+            },
+            invert: {
               type: "boolean",
-              default: true,
-              description: "是否等待任务完成并返回图像URL"
+              default: false,
+              description: "是否反转遮罩（编辑标注以外的区域）"
             }
           },
-          required: ["prompt", "function", "base_image_url"]
-        }      },
+          required: ["annotated_image"]
+        }
+      },
       {
         name: "get_image_edit_functions",
         description: "获取图像编辑功能详情和使用说明",
@@ -461,7 +712,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       // 🔄 P5 - 批量操作 (中低优先级)
       {
         name: "batch_generate_images",
-        description: "批量生成图像，支持并发处理和进度跟踪",
+        description: "批量生成图像，支持并发处理和进度跟踪。启动后立即返回批量任务ID，使用 get_batch_status 查询进度，使用 cancel_batch_task 取消",
         inputSchema: {
           type: "object",
           properties: {
@@ -476,12 +727,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "统一的艺术风格"
             },
-            size: {
-              type: "string",
-              pattern: "^\\d{3,4}\\*\\d{3,4}$",
-              default: "1024*1024",
-              description: "图像尺寸"
-            },
+            size: modelRegistry.buildSizeProperty('text-to-image'),
             optimize_prompts: {
               type: "boolean",
               default: true,
@@ -642,19 +888,61 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 });
 
 // 注册工具调用处理器
-server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest, extra) => {
   try {
     Logger.info(`处理工具调用: ${request.params.name}`);
+    const progress = new ProgressReporter(request.params._meta?.progressToken, extra.sendNotification);
     
     switch (request.params.name) {
       case "text_to_image": {
         const params = TextToImageSchema.parse(request.params.arguments);
         const waitForCompletion = (request.params.arguments as any)?.wait_for_completion ?? true;
+        const forceRegenerate = (request.params.arguments as any)?.force_regenerate ?? false;
+        const idempotencyKey = IdempotencyKeySchema.parse((request.params.arguments as any)?.idempotency_key);
+        const allowFallback: boolean | undefined = (request.params.arguments as any)?.allow_fallback;
+        
+        // 指定 seed 时结果可复现，参数完全相同且已存储过结果则直接返回
+        if (params.seed !== undefined && !forceRegenerate) {
+          const cachedImages = imageStorage.findImagesByGeneration({ kind: 'text_to_image', ...params });
+          if (cachedImages.length > 0) {
+            Logger.info(`命中已存储的生成结果: 任务 ${cachedImages[0].metadata.task_id}`);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    success: true,
+                    cached: true,
+                    task_id: cachedImages[0].metadata.task_id,
+                    task_status: TASK_STATUS.SUCCEEDED,
+                    image_resources: cachedImages.map(img => ({
+                      resource_uri: img.resourceUri,
+                      filename: img.filename,
+                      local_path: img.localPath
+                    })),
+                    original_prompt: params.prompt,
+                    actual_prompts: cachedImages.map(img => img.metadata.actualPrompt).filter(Boolean),
+                    image_count: cachedImages.length,
+                    message: `已存在相同参数生成的 ${cachedImages.length} 张图像，直接返回已存储的结果（force_regenerate=true 可重新生成）`
+                  }, null, 2)
+                }
+              ]
+            };
+          }
+        }
         
         Logger.info(`开始生成图像: ${params.prompt.substring(0, 50)}...`);
         
-        // 创建任务
-        const createResult = await tongyiService.createTextToImageTask(params);
+        // 创建任务并写入任务日志
+        const createResult = await tongyiService.createTextToImageTask(params, { idempotencyKey, allowFallback });
+        TaskResultManager.trackTask(createResult.output.task_id, 'text_to_image', params, {
+          tool: 'text_to_image',
+          client: server.getClientVersion()?.name
+        }, createResult.fallback);
+        const modelInfo = {
+          model: createResult.fallback?.model ?? params.model,
+          ...(createResult.fallback && { fallback: createResult.fallback })
+        };
         
         if (!waitForCompletion) {
           // 只返回任务ID，不等待完成
@@ -666,7 +954,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
                   success: true,
                   task_id: createResult.output.task_id,
                   task_status: createResult.output.task_status,
-                  message: "任务已创建，请使用 query_task 工具查询任务状态和结果"
+                  ...modelInfo,
+                  message: "任务已创建，请使用 query_task 工具查询任务状态，或使用 retrieve_task_results 获取并存储结果"
                 }, null, 2)
               }
             ]
@@ -674,31 +963,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
         }
         
         // 等待任务完成
-        const finalResult = await tongyiService.waitForTaskCompletion(createResult.output.task_id);
+        progress.report(`任务已创建: ${createResult.output.task_id}`);
+        const finalResult = await tongyiService.waitForTaskCompletion(createResult.output.task_id, undefined, undefined, {
+          onStatusChange: status => progress.report(TASK_STATUS_PROGRESS[status] || `任务状态: ${status}`),
+          signal: extra.signal
+        });
         
         if (finalResult.output.task_status === TASK_STATUS.SUCCEEDED) {
           const imageUrls = finalResult.output.results?.map(r => r.url).filter(Boolean) || [];
           const actualPrompts = finalResult.output.results?.map(r => r.actual_prompt).filter(Boolean) || [];
           
           // 下载并存储所有生成的图片
-          const storedImages: StoredImage[] = [];
-          for (const [index, url] of imageUrls.entries()) {
-            if (!url) continue;
-            
-            try {
-              const storedImage = await imageStorage.downloadAndStore(url, params.prompt, {
-                model: params.model,
-                size: params.size,
-                task_id: createResult.output.task_id,
-                actualPrompt: actualPrompts[index]
-              });
-              storedImages.push(storedImage);
-              Logger.info(`图片存储成功: ${storedImage.filename}`);
-            } catch (error) {
-              Logger.error('图片存储失败', error);
-              // 继续处理其他图片
-            }
-          }
+          const storedImages = await TaskResultManager.storeResults(createResult.output.task_id, finalResult, {
+            onImageStage: reportStorageStage(progress),
+            signal: extra.signal
+          });
           
           return {
             content: [
@@ -708,6 +987,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
                   success: true,
                   task_id: finalResult.output.task_id,
                   task_status: finalResult.output.task_status,
+                  ...modelInfo,
                   image_resources: storedImages.length > 0 
                     ? storedImages.map(img => ({
                         resource_uri: img.resourceUri,
@@ -730,7 +1010,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
           };
         } else {
           // 任务失败
-          const errorMessage = finalResult.output.results?.[0]?.message || '任务执行失败';
+          await TaskResultManager.storeResults(createResult.output.task_id, finalResult);
+          const errorMessage = finalResult.output.message || finalResult.output.results?.[0]?.message || '任务执行失败';
           return {
             content: [
               {
@@ -739,6 +1020,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
                   success: false,
                   task_id: finalResult.output.task_id,
                   task_status: finalResult.output.task_status,
+                  ...modelInfo,
+                  ...describeTaskFailure(finalResult.output),
                   error: errorMessage,
                   submit_time: finalResult.output.submit_time,
                   end_time: finalResult.output.end_time
@@ -771,6 +1054,158 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
         };
       }
 
+      case "cancel_task": {
+        const params = CancelTaskSchema.parse(request.params.arguments);
+        
+        try {
+          const result = await tongyiService.cancelTask(params.task_id);
+          const record = imageStorage.recordTaskCancellation(params.task_id, params.reason);
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  success: true,
+                  task_id: result.task_id,
+                  task_status: record.status,
+                  request_id: result.request_id,
+                  reason: params.reason,
+                  cancelled_at: new Date(record.cancelledAt!).toISOString(),
+                  message: "任务已取消"
+                }, null, 2)
+              }
+            ]
+          };
+        } catch (error) {
+          // 只有 DashScope 明确返回不可取消（UnsupportedOperation）时才提示状态限制，其他错误按分类结果返回
+          const notCancelable = error instanceof TongyiError && error.originalError?.code === 'UnsupportedOperation';
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  success: false,
+                  task_id: params.task_id,
+                  error: error instanceof Error ? error.message : String(error),
+                  ...(error instanceof TongyiError && {
+                    code: error.code,
+                    retryable: error.retryable,
+                    ...(error.remediation && { remediation: error.remediation })
+                  }),
+                  message: notCancelable
+                    ? "任务取消失败，只有排队中(PENDING)的任务可以取消"
+                    : "任务取消失败"
+                }, null, 2)
+              }
+            ]
+          };
+        }
+      }
+
+      case "list_tasks": {
+        const params = ListTasksSchema.parse(request.params.arguments || {});
+        const result = await tongyiService.listTasks(params);
+        
+        // 与本地存储合并：已下载的图片和本地任务记录
+        const tasks = result.data.map(task => {
+          const localImages = imageStorage.getImagesByTaskId(task.task_id);
+          const localRecord = imageStorage.getTaskRecord(task.task_id);
+          return {
+            task_id: task.task_id,
+            task_status: task.status,
+            model: task.model_name,
+            region: task.region,
+            start_time: task.start_time,
+            end_time: task.end_time,
+            downloaded: localImages.length > 0,
+            has_undownloaded_results: task.status === TASK_STATUS.SUCCEEDED && localImages.length === 0,
+            local_images: localImages.length > 0
+              ? localImages.map(img => ({
+                  resource_uri: img.resourceUri,
+                  filename: img.filename
+                }))
+              : undefined,
+            cancel_reason: localRecord?.cancelReason
+          };
+        });
+        const undownloadedCount = tasks.filter(task => task.has_undownloaded_results).length;
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                page_no: result.page_no,
+                page_size: result.page_size,
+                total: result.total,
+                total_page: result.total_page,
+                undownloaded_count: undownloadedCount,
+                tasks,
+                message: undownloadedCount > 0
+                  ? `共 ${result.total} 个任务，本页有 ${undownloadedCount} 个已成功但尚未下载结果的任务，可使用 retrieve_task_results 下载存储（结果URL有效期为24小时）`
+                  : `共 ${result.total} 个任务`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case "retrieve_task_results": {
+        const params = RetrieveTaskResultsSchema.parse(request.params.arguments);
+        const outcome = await TaskResultManager.retrieveResults(params.task_id, {
+          wait: params.wait_for_completion,
+          onStatusChange: status => progress.report(TASK_STATUS_PROGRESS[status] || `任务状态: ${status}`),
+          onImageStage: reportStorageStage(progress),
+          signal: extra.signal
+        });
+        
+        const succeeded = outcome.status === TASK_STATUS.SUCCEEDED;
+        const finished = succeeded || outcome.status === TASK_STATUS.FAILED ||
+          outcome.status === TASK_STATUS.CANCELED || outcome.status === TASK_STATUS.UNKNOWN;
+        const imageUrls = outcome.result?.output.results?.map(r => r.url).filter(Boolean) || [];
+        
+        let message: string;
+        if (succeeded && outcome.images.length > 0) {
+          message = outcome.alreadyStored
+            ? `任务结果此前已存储，共 ${outcome.images.length} 张图像`
+            : `成功存储 ${outcome.images.length} 张图像，可通过MCP Resources访问`;
+        } else if (succeeded) {
+          message = '任务已成功，但图像下载存储失败，可稍后重试（结果URL有效期为24小时）';
+        } else if (!finished) {
+          message = '任务尚未完成，请稍后再次调用';
+        } else {
+          message = outcome.result?.output.message || outcome.record?.error || '任务未成功，没有可存储的结果';
+        }
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: succeeded && outcome.images.length > 0,
+                task_id: params.task_id,
+                task_status: outcome.status,
+                already_stored: outcome.alreadyStored,
+                prompt: outcome.record?.prompt,
+                model: outcome.record?.model,
+                image_resources: outcome.images.length > 0
+                  ? outcome.images.map(img => ({
+                      resource_uri: img.resourceUri,
+                      filename: img.filename,
+                      local_path: img.localPath
+                    }))
+                  : undefined,
+                image_urls: succeeded && outcome.images.length === 0 ? imageUrls : undefined,
+                ...(outcome.result && describeTaskFailure(outcome.result.output)),
+                message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
       case "get_supported_models": {
         const models = tongyiService.getSupportedModels();
         return {
@@ -779,7 +1214,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
               type: "text",
               text: JSON.stringify({
                 supported_models: models,
-                default_model: "wanx2.1-t2i-turbo"
+                default_model: modelRegistry.getDefaultModel('text-to-image').name
               }, null, 2)
             }
           ]
@@ -794,13 +1229,47 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
               type: "text",
               text: JSON.stringify({
                 service_status: status,
-                image_storage: imageStorage.getStats()
+                budgets: BudgetManager.getStatus(),
+                image_storage: imageStorage.getStats(),
+                ...(fileServer && { file_server: fileServer.getStatus() })
               }, null, 2)
             }
           ]
         };
       }
 
+      case "reset_circuit_breaker": {
+        const params = ResetCircuitBreakerSchema.parse(request.params.arguments || {});
+        const reset = tongyiService.resetCircuitBreakers(params.name);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                reset,
+                message: `已重置 ${reset.length} 个熔断器`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case "get_usage_report": {
+        const params = UsageReportSchema.parse(request.params.arguments || {});
+        const report = UsageLedger.getReport(params);
+        return {
+          content: [
+            {
+              type: "text",
+              text: params.format === 'csv'
+                ? UsageLedger.toCsv(report)
+                : JSON.stringify({ ...report, budgets: BudgetManager.getStatus() }, null, 2)
+            }
+          ]
+        };
+      }
+
       case "get_image_stats": {
         const stats = imageStorage.getStats();
         return {
@@ -1071,13 +1540,37 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
       }
 
       case "image_edit": {
-        const params = ImageEditSchema.parse(request.params.arguments);
-        const waitForCompletion = (request.params.arguments as any)?.wait_for_completion ?? true;
+        // 工具调用控制参数不属于编辑参数，校验前移除
+        const { wait_for_completion, idempotency_key, ...editArgs } = (request.params.arguments || {}) as Record<string, unknown>;
+        const params: ImageEditParams = ImageEditSchema.parse(editArgs);
+        const waitForCompletion = wait_for_completion ?? true;
+        const idempotencyKey = IdempotencyKeySchema.parse(idempotency_key);
         
         Logger.info(`开始图像编辑: ${params.function} - ${params.prompt.substring(0, 50)}...`);
         
-        // 创建任务
-        const createResult = await tongyiService.createImageEditTask(params);
+        // 资源 URI、本地文件和 data URI 解析为 DashScope 可以下载的 URL
+        const baseImage = await imageStorage.resolveImageInput(params.base_image_url, 'base_image_url', extra.signal);
+        const maskImage = typeof params.mask_image_url === 'string'
+          ? await imageStorage.resolveImageInput(params.mask_image_url, 'mask_image_url', extra.signal)
+          : undefined;
+        const editParams: ImageEditParams = {
+          ...params,
+          base_image_url: baseImage.url,
+          ...(maskImage && { mask_image_url: maskImage.url })
+        };
+        
+        // 创建任务并写入任务日志
+        const createResult = await tongyiService.createImageEditTask(editParams, {
+          idempotencyKey,
+          originalInputs: {
+            base_image_url: params.base_image_url,
+            ...(typeof params.mask_image_url === 'string' && { mask_image_url: params.mask_image_url })
+          }
+        });
+        TaskResultManager.trackTask(createResult.output.task_id, 'image_edit', editParams, {
+          tool: 'image_edit',
+          client: server.getClientVersion()?.name
+        });
         
         if (!waitForCompletion) {
           // 只返回任务ID，不等待完成
@@ -1090,7 +1583,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
                   task_id: createResult.output.task_id,
                   task_status: createResult.output.task_status,
                   function: params.function,
-                  message: "图像编辑任务已创建，请使用 query_task 工具查询任务状态和结果"
+                  message: "图像编辑任务已创建，请使用 query_task 工具查询任务状态，或使用 retrieve_task_results 获取并存储结果"
                 }, null, 2)
               }
             ]
@@ -1098,30 +1591,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
         }
         
         // 等待任务完成
-        const finalResult = await tongyiService.waitForTaskCompletion(createResult.output.task_id);
+        progress.report(`图像编辑任务已创建: ${createResult.output.task_id}`);
+        const finalResult = await tongyiService.waitForTaskCompletion(createResult.output.task_id, undefined, undefined, {
+          onStatusChange: status => progress.report(TASK_STATUS_PROGRESS[status] || `任务状态: ${status}`),
+          signal: extra.signal
+        });
           if (finalResult.output.task_status === TASK_STATUS.SUCCEEDED) {
           const imageUrls = finalResult.output.results?.map(r => r.url).filter(Boolean) || [];
           
           // 下载并存储所有生成的图片
-          const storedImages: StoredImage[] = [];
-          for (const url of imageUrls) {
-            if (!url) continue;
-            
-            try {
-              const storedImage = await imageStorage.downloadAndStore(url, params.prompt, {
-                model: params.model,
-                function: params.function,
-                base_image_url: params.base_image_url,
-                task_id: createResult.output.task_id,
-                editType: params.function
-              });
-              storedImages.push(storedImage);
-              Logger.info(`编辑后图片存储成功: ${storedImage.filename}`);
-            } catch (error) {
-              Logger.error('编辑后图片存储失败', error);
-              // 继续处理其他图片
-            }
-          }
+          const storedImages = await TaskResultManager.storeResults(createResult.output.task_id, finalResult, {
+            onImageStage: reportStorageStage(progress),
+            signal: extra.signal
+          });
           
           return {
             content: [
@@ -1141,7 +1623,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
                     : undefined,
                   image_urls: storedImages.length === 0 ? imageUrls : undefined,
                   original_prompt: params.prompt,
-                  base_image_url: params.base_image_url,
+                  base_image_url: editParams.base_image_url,
                   image_count: finalResult.usage?.image_count || storedImages.length,
                   submit_time: finalResult.output.submit_time,
                   end_time: finalResult.output.end_time,
@@ -1154,7 +1636,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
           };
         } else {
           // 任务失败
-          const errorMessage = finalResult.output.results?.[0]?.message || '图像编辑任务执行失败';
+          await TaskResultManager.storeResults(createResult.output.task_id, finalResult);
+          const errorMessage = finalResult.output.message || finalResult.output.results?.[0]?.message || '图像编辑任务执行失败';
           return {
             content: [
               {
@@ -1164,6 +1647,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
                   task_id: finalResult.output.task_id,
                   task_status: finalResult.output.task_status,
                   function: params.function,
+                  ...describeTaskFailure(finalResult.output),
                   error: errorMessage,
                   submit_time: finalResult.output.submit_time,
                   end_time: finalResult.output.end_time
@@ -1172,7 +1656,64 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
             ]
           };
         }
-      }      case "get_image_edit_functions": {
+      }
+
+      case "create_mask": {
+        const params = CreateMaskSchema.parse(request.params.arguments || {});
+        const result = await MaskBuilder.createMask(params, extra.signal);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                mask_id: result.image.id,
+                resource_uri: result.image.resourceUri,
+                mask_image_url: result.image.resourceUri,
+                local_path: result.image.localPath,
+                width: result.width,
+                height: result.height,
+                coverage: result.coverage,
+                message: result.coverage === 0
+                  ? "⚠️ 遮罩中没有编辑区域，请检查形状坐标是否在图像范围内"
+                  : "遮罩已生成，可将 mask_image_url 直接传给 image_edit 的 description_edit_with_mask 功能"
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case "extract_mask": {
+        const params = ExtractMaskSchema.parse(request.params.arguments || {});
+        const result = await MaskBuilder.extractMask(params, extra.signal);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                mask_id: result.image.id,
+                resource_uri: result.image.resourceUri,
+                mask_image_url: result.image.resourceUri,
+                local_path: result.image.localPath,
+                mode: result.mode,
+                width: result.width,
+                height: result.height,
+                coverage: result.coverage,
+                message: result.coverage === 0
+                  ? "⚠️ 没有提取到标注区域，请检查标注颜色或调大 tolerance"
+                  : params.original_image
+                    ? "遮罩已生成，可将 mask_image_url 和 original_image 分别作为 image_edit 的 mask_image_url 和 base_image_url"
+                    : "遮罩已生成，可将 mask_image_url 传给 image_edit 的 description_edit_with_mask 功能（base_image_url 请使用未标注的原图）"
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case "get_image_edit_functions": {
         const functions = tongyiService.getImageEditFunctions();
         return {
           content: [
@@ -1494,7 +2035,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
         const { 
           prompts, 
           style, 
-          size = "1024*1024", 
+          size = modelRegistry.getDefaultModel('text-to-image').size?.default, 
           optimize_prompts = true, 
           create_variants = false,
           max_concurrency = 3
@@ -1520,11 +2061,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
             {
               maxConcurrency: max_concurrency,
               retryCount: 2,
-              continueOnError: true
+              continueOnError: true,
+              client: server.getClientVersion()?.name
             }
           );
-            // 注释掉不存在的方法调用
-          // BatchOperationManager.startBatchGeneration(taskId);
           
           return {
             content: [
@@ -1756,11 +2296,25 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
         throw new TongyiError('UNKNOWN_TOOL', `未知的工具: ${request.params.name}`);
     }
   } catch (error) {
-    Logger.error('工具调用失败', error);
+    // 客户端主动取消的请求不视为失败（SDK 不会再发送响应）
+    if (extra.signal.aborted) {
+      Logger.info(`工具调用已被客户端取消: ${request.params.name}`);
+    } else {
+      Logger.error('工具调用失败', error);
+    }
     
     if (error instanceof TongyiError) {
       throw error.toMcpError();
     }
+
+    // 参数校验失败：逐条列出出错的参数和原因
+    if (error instanceof ZodError) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `参数校验失败: ${error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message).join('；')}`,
+        { issues: error.issues }
+      );
+    }
     
     throw new McpError(
       ErrorCode.InternalError,
@@ -2059,6 +2613,14 @@ process.on('SIGTERM', async () => {
 // 启动服务器
 async function main() {
   try {
+    if (simulator) {
+      await simulator.start();
+    }
+
+    if (fileServer) {
+      await fileServer.start();
+    }
+
     const transport = process.env.MCP_TRANSPORT || 'stdio';
     
     if (transport === 'stdio') {
@@ -2070,6 +2632,11 @@ async function main() {
     }
     
     Logger.info('通义万相 MCP 服务器已启动并准备接收请求');
+
+    // 后台恢复重启前未完成的任务
+    TaskResultManager.resumeInFlightTasks().catch(error => {
+      Logger.error('恢复未完成任务失败', error);
+    });
   } catch (error) {
     Logger.error('服务器启动失败', error);
     process.exit(1);
@@ -2092,6 +2659,10 @@ async function gracefulShutdown() {
     // 销毁图片存储管理器
     imageStorage.destroy();
     
+    // 停止本地模拟器和文件服务器
+    await simulator?.stop();
+    await fileServer?.stop();
+    
     // 销毁日志系统（上传剩余日志）
     await Logger.destroy();
     
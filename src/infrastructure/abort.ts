@@ -0,0 +1,67 @@
+import { TongyiError } from './errors.js';
+
+/**
+ * 取消信号工具
+ * 兼容 Node 18（不支持 AbortSignal.any）
+ */
+
+/**
+ * 合并多个取消信号，任意一个触发即触发
+ */
+export function anySignal(signals: Array<AbortSignal | undefined>): AbortSignal {
+  const active = signals.filter((signal): signal is AbortSignal => !!signal);
+  if (active.length === 1) {
+    return active[0];
+  }
+
+  const controller = new AbortController();
+  for (const signal of active) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * 创建统一的取消错误
+ */
+export function createCancelledError(context: string, originalError?: unknown): TongyiError {
+  return new TongyiError('CANCELLED', `${context}已取消`, undefined, originalError);
+}
+
+/**
+ * 信号已触发时抛出取消错误
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, context: string): void {
+  if (signal?.aborted) {
+    throw createCancelledError(context, signal.reason);
+  }
+}
+
+/**
+ * 让不支持取消信号的异步操作可被提前放弃（操作本身仍会在后台结束）
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined, context: string): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  throwIfAborted(signal, context);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createCancelledError(context, signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
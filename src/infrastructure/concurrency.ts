@@ -236,6 +236,16 @@ export class PerformanceMonitor {
     };
   }
 
+  /**
+   * 获取某个操作最近成功记录的耗时（从旧到新）
+   */
+  static getRecentDurations(operationName: string, limit: number = 20): number[] {
+    return this.metrics
+      .filter(m => m.operationName === operationName && m.success)
+      .slice(-limit)
+      .map(m => m.duration);
+  }
+
   /**
    * 获取系统运行时间
    */
@@ -1,14 +1,63 @@
 import { existsSync, mkdirSync } from 'fs';
 
+/**
+ * DashScope 区域端点配置
+ */
+export interface EndpointConfig {
+  name: string;
+  url: string;
+  /** 该区域专用的 API Key，未设置时使用 DASHSCOPE_API_KEY(S) */
+  apiKeys?: string[];
+}
+
 /**
  * 应用程序配置管理
  */
 export class Config {  // API配置
   static readonly API_KEY = process.env.DASHSCOPE_API_KEY;
-  static readonly BASE_URL = process.env.DASHSCOPE_BASE_URL || "https://dashscope.aliyuncs.com";
+  // 多个工作空间的 API Key（逗号分隔），与 DASHSCOPE_API_KEY 合并组成密钥池
+  static readonly API_KEYS = Array.from(new Set([
+    ...(Config.API_KEY ? [Config.API_KEY] : []),
+    ...(process.env.DASHSCOPE_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean)
+  ]));
+  static readonly API_KEY_THROTTLE_COOLDOWN = parseInt(process.env.API_KEY_THROTTLE_COOLDOWN || "60000"); // 1分钟
+  static readonly API_KEY_EXHAUSTED_COOLDOWN = parseInt(process.env.API_KEY_EXHAUSTED_COOLDOWN || "3600000"); // 1小时
+  
+  // 测试模式配置
+  static readonly ALLOW_TEST_MODE = process.env.ALLOW_TEST_MODE === 'true';
+  static readonly IS_TEST_MODE = Config.API_KEYS.length === 0 || Config.API_KEYS.every(key => key === 'test-key');
+  
+  // 本地 DashScope 模拟器配置 - 测试模式下默认启用，也可显式开启
+  static readonly SIMULATOR_ENABLE = process.env.DASHSCOPE_SIMULATOR === 'true' ||
+    (Config.IS_TEST_MODE && process.env.DASHSCOPE_SIMULATOR !== 'false');
+  static readonly SIMULATOR_PENDING_MS = parseInt(process.env.SIMULATOR_PENDING_MS || "2000");
+  static readonly SIMULATOR_RUNNING_MS = parseInt(process.env.SIMULATOR_RUNNING_MS || "3000");
+  static readonly SIMULATOR_FAILURE_RATE = parseFloat(process.env.SIMULATOR_FAILURE_RATE || "0");
+  static readonly SIMULATOR_FAILURE_CODE = process.env.SIMULATOR_FAILURE_CODE || "InternalError.Algo";
+  static readonly SIMULATOR_SUBMIT_QPS = parseFloat(process.env.SIMULATOR_SUBMIT_QPS || "0");
+  
+  static readonly BASE_URL = process.env.DASHSCOPE_BASE_URL ||
+    (Config.SIMULATOR_ENABLE ? "http://127.0.0.1:18080" : "https://dashscope.aliyuncs.com");
+  static readonly REQUEST_TIMEOUT = parseInt(process.env.DASHSCOPE_REQUEST_TIMEOUT || "30000"); // 30秒
+  // DashScope 区域端点（按优先级排列），未设置时只使用 BASE_URL
+  // 格式: 逗号分隔的地址，或 JSON 数组 [{"name": "intl", "url": "https://dashscope-intl.aliyuncs.com", "api_keys": ["sk-..."]}]
+  static readonly ENDPOINTS: EndpointConfig[] = Config.parseEndpoints(process.env.DASHSCOPE_ENDPOINTS, Config.BASE_URL);
+  
+  // 熔断器配置 - 每个区域的每个接口独立熔断
+  static readonly CIRCUIT_BREAKER_FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || "5");
+  static readonly CIRCUIT_BREAKER_TIMEOUT = parseInt(process.env.CIRCUIT_BREAKER_TIMEOUT || "30000"); // 熔断后30秒尝试恢复
+  static readonly CIRCUIT_BREAKER_MONITORING_PERIOD = parseInt(process.env.CIRCUIT_BREAKER_MONITORING_PERIOD || "10000");
+  
+  // 模型注册表 - 可选的 JSON 文件，用于覆盖或新增模型定义
+  static readonly MODEL_REGISTRY_FILE = process.env.MODEL_REGISTRY_FILE;
   
   // 存储配置 - 必须由用户在 MCP host/client 端配置
   static readonly IMAGES_DIR = process.env.IMAGES_DIR;
+  // 图像输入允许读取的本地目录（逗号分隔），IMAGES_DIR 始终允许，其他路径一律拒绝
+  static readonly INPUT_ALLOWED_DIRS = (process.env.INPUT_ALLOWED_DIRS || '')
+    .split(',')
+    .map(dir => dir.trim())
+    .filter(Boolean);
   
   // Aliyun OSS 配置 - 用于云端存储和公网访问
   static readonly OSS_ACCESS_KEY_ID = process.env.OSS_ACCESS_KEY_ID;
@@ -17,27 +66,97 @@ export class Config {  // API配置
   static readonly OSS_BUCKET = process.env.OSS_BUCKET;
   static readonly OSS_ENDPOINT = process.env.OSS_ENDPOINT; // 可选，如果不提供则使用默认endpoint
   static readonly OSS_ENABLE = process.env.OSS_ENABLE === 'true'; // 是否启用OSS功能
+
+  // 本地文件服务器配置（未启用 OSS 时为图像编辑输入提供签名访问 URL）
+  static readonly FILE_SERVER_ENABLE = process.env.FILE_SERVER_ENABLE === 'true';
+  static readonly FILE_SERVER_HOST = process.env.FILE_SERVER_HOST || '127.0.0.1';
+  static readonly FILE_SERVER_PORT = parseInt(process.env.FILE_SERVER_PORT || "8787");
+  static readonly FILE_SERVER_PUBLIC_URL = process.env.FILE_SERVER_PUBLIC_URL ||
+    `http://${Config.FILE_SERVER_HOST}:${Config.FILE_SERVER_PORT}`;
+  static readonly FILE_SERVER_SECRET = process.env.FILE_SERVER_SECRET; // 未设置时每次启动随机生成
+  static readonly FILE_SERVER_URL_TTL = parseInt(process.env.FILE_SERVER_URL_TTL || "600"); // 签名 URL 有效期 10分钟
   
   // 任务配置
   static readonly MAX_WAIT_TIME = parseInt(process.env.MAX_WAIT_TIME || "300000"); // 5分钟
-  static readonly POLL_INTERVAL = parseInt(process.env.POLL_INTERVAL || "5000"); // 5秒
+  static readonly POLL_INTERVAL = parseInt(process.env.POLL_INTERVAL || "1000"); // 初始轮询间隔 1秒
+  // 自适应轮询：从 POLL_INTERVAL 开始按倍数退避到 POLL_MAX_INTERVAL，并按模型历史耗时预估剩余时间
+  static readonly POLL_MAX_INTERVAL = parseInt(process.env.POLL_MAX_INTERVAL || "15000"); // 15秒
+  static readonly POLL_BACKOFF_FACTOR = parseFloat(process.env.POLL_BACKOFF_FACTOR || "1.5");
+  static readonly POLL_JITTER = parseFloat(process.env.POLL_JITTER || "0.2"); // 间隔随机浮动 ±20%
+  // 任务监视器同时进行的状态查询数，超出的查询顺延到下一轮
+  static readonly TASK_POLL_CONCURRENCY = parseInt(process.env.TASK_POLL_CONCURRENCY || "4");
   static readonly MAX_CONCURRENT_REQUESTS = parseInt(process.env.MAX_CONCURRENT_REQUESTS || "2");
   
+  // 模型降级：请求的模型被限流、额度用尽或熔断时按模型注册表中的 fallback 改用备用模型（提交超时不降级）
+  static readonly MODEL_FALLBACK_ENABLE = process.env.MODEL_FALLBACK_ENABLE !== 'false';
+  
+  // 任务提交限流配置 - 按模型和接口分通道，模型注册表中的 rate_limit 优先
+  static readonly RATE_LIMIT_QPS = parseFloat(process.env.RATE_LIMIT_QPS || "2");
+  static readonly RATE_LIMIT_BURST = parseInt(process.env.RATE_LIMIT_BURST || "2");
+  static readonly RATE_LIMIT_MAX_BACKOFF = parseInt(process.env.RATE_LIMIT_MAX_BACKOFF || "60000"); // 1分钟
+  
+  // 预算配置 - 按自然日/自然月统计，未设置则不限制
+  static readonly BUDGET_DAILY_IMAGES = Config.parseOptionalNumber(process.env.BUDGET_DAILY_IMAGES);
+  static readonly BUDGET_MONTHLY_IMAGES = Config.parseOptionalNumber(process.env.BUDGET_MONTHLY_IMAGES);
+  static readonly BUDGET_DAILY_COST = Config.parseOptionalNumber(process.env.BUDGET_DAILY_COST);
+  static readonly BUDGET_MONTHLY_COST = Config.parseOptionalNumber(process.env.BUDGET_MONTHLY_COST);
+  // 按模型的预算，JSON 格式: {"wanx2.1-t2i-plus": {"daily_images": 20, "monthly_cost": 50}}
+  static readonly BUDGET_MODEL_LIMITS = process.env.BUDGET_MODEL_LIMITS;
+  // 预算用量达到这些比例时发出警告
+  static readonly BUDGET_WARNING_THRESHOLDS = (process.env.BUDGET_WARNING_THRESHOLDS || "0.8,0.95")
+    .split(',').map(value => parseFloat(value.trim())).filter(value => !Number.isNaN(value));
+  
   // 日志配置
   static readonly LOG_LEVEL = process.env.LOG_LEVEL || 'INFO';
   
-  // 测试模式配置
-  static readonly ALLOW_TEST_MODE = process.env.ALLOW_TEST_MODE === 'true';
-  static readonly IS_TEST_MODE = !Config.API_KEY || Config.API_KEY === 'test-key';
-  
   // 清理配置
   static readonly IMAGE_RETENTION_DAYS = parseInt(process.env.IMAGE_RETENTION_DAYS || "7");
   static readonly CLEANUP_INTERVAL_HOURS = parseInt(process.env.CLEANUP_INTERVAL_HOURS || "24");  /**
+   * 解析区域端点配置，格式无效时返回空列表（由 validate 报错）
+   */
+  private static parseEndpoints(value: string | undefined, baseUrl: string): EndpointConfig[] {
+    if (!value) {
+      return [{ name: Config.getEndpointName(baseUrl), url: baseUrl }];
+    }
+
+    try {
+      const entries: Array<string | { name?: string; url: string; api_keys?: string[] }> = value.trim().startsWith('[')
+        ? JSON.parse(value)
+        : value.split(',').map(url => url.trim()).filter(Boolean);
+      return entries.map(entry => {
+        const endpoint = typeof entry === 'string' ? { url: entry } : entry;
+        return {
+          name: endpoint.name || Config.getEndpointName(endpoint.url),
+          url: endpoint.url,
+          ...(endpoint.api_keys?.length && { apiKeys: endpoint.api_keys })
+        };
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  private static getEndpointName(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * 解析可选的数值配置，未设置时返回 undefined
+   */
+  private static parseOptionalNumber(value: string | undefined): number | undefined {
+    return value ? parseFloat(value) : undefined;
+  }
+
+  /**
    * 验证配置
    */
   static validate(): void {
-    if (!Config.API_KEY && !Config.ALLOW_TEST_MODE) {
-      throw new Error("错误: 请设置 DASHSCOPE_API_KEY 环境变量或设置 ALLOW_TEST_MODE=true 进入测试模式");
+    if (Config.API_KEYS.length === 0 && !Config.ALLOW_TEST_MODE) {
+      throw new Error("错误: 请设置 DASHSCOPE_API_KEY（或 DASHSCOPE_API_KEYS）环境变量或设置 ALLOW_TEST_MODE=true 进入测试模式");
     }
 
     if (!Config.IMAGES_DIR) {
@@ -51,6 +170,18 @@ export class Config {  // API配置
       }
     }
 
+    if (Config.FILE_SERVER_ENABLE) {
+      if (!(Config.FILE_SERVER_PORT >= 0 && Config.FILE_SERVER_PORT <= 65535) || !(Config.FILE_SERVER_URL_TTL > 0)) {
+        throw new Error("错误: FILE_SERVER_PORT 必须在 0-65535 之间，FILE_SERVER_URL_TTL 必须大于 0");
+      }
+      if (!/^https?:\/\/[^/]+/.test(Config.FILE_SERVER_PUBLIC_URL)) {
+        throw new Error(`错误: FILE_SERVER_PUBLIC_URL 必须是 http(s) 地址，当前为 ${Config.FILE_SERVER_PUBLIC_URL}`);
+      }
+      if (/^https?:\/\/(127\.0\.0\.1|localhost|0\.0\.0\.0)([:/]|$)/.test(Config.FILE_SERVER_PUBLIC_URL) && !Config.SIMULATOR_ENABLE) {
+        console.warn("警告: FILE_SERVER_PUBLIC_URL 是本地地址，DashScope 无法下载，请设置为公网可访问的地址（如反向代理或隧道）");
+      }
+    }
+
     if (Config.MAX_WAIT_TIME < 10000) {
       console.warn("警告: MAX_WAIT_TIME 设置过小，建议至少设置为 10000ms");
     }
@@ -59,6 +190,55 @@ export class Config {  // API配置
       console.warn("警告: POLL_INTERVAL 设置过小，建议至少设置为 1000ms");
     }
 
+    if (Config.POLL_MAX_INTERVAL < Config.POLL_INTERVAL || Config.POLL_BACKOFF_FACTOR < 1 ||
+        Config.POLL_JITTER < 0 || Config.POLL_JITTER >= 1) {
+      throw new Error("错误: POLL_MAX_INTERVAL 不能小于 POLL_INTERVAL，POLL_BACKOFF_FACTOR 至少为 1，POLL_JITTER 必须在 0-1 之间");
+    }
+
+    if (Config.TASK_POLL_CONCURRENCY < 1) {
+      throw new Error("错误: TASK_POLL_CONCURRENCY 至少为 1");
+    }
+
+    if (Config.SIMULATOR_ENABLE && !/^http:\/\/(127\.0\.0\.1|localhost|0\.0\.0\.0)(:\d+)?\/?$/.test(Config.BASE_URL)) {
+      throw new Error(`错误: 启用 DashScope 模拟器时 DASHSCOPE_BASE_URL 必须是本地 http 地址，当前为 ${Config.BASE_URL}`);
+    }
+
+    if (Config.ENDPOINTS.length === 0 || Config.ENDPOINTS.some(endpoint => !/^https?:\/\/[^/]+/.test(endpoint.url || ''))) {
+      throw new Error("错误: DASHSCOPE_ENDPOINTS 格式无效，应为逗号分隔的 http(s) 地址或 JSON 数组");
+    }
+
+    if (new Set(Config.ENDPOINTS.map(endpoint => endpoint.name)).size !== Config.ENDPOINTS.length) {
+      throw new Error("错误: DASHSCOPE_ENDPOINTS 中的区域名称不能重复");
+    }
+
+    if (Config.MODEL_REGISTRY_FILE && !existsSync(Config.MODEL_REGISTRY_FILE)) {
+      throw new Error(`错误: MODEL_REGISTRY_FILE 指定的模型注册表文件不存在: ${Config.MODEL_REGISTRY_FILE}`);
+    }
+
+    if (Config.BUDGET_MODEL_LIMITS) {
+      try {
+        JSON.parse(Config.BUDGET_MODEL_LIMITS);
+      } catch {
+        throw new Error("错误: BUDGET_MODEL_LIMITS 必须是合法的 JSON");
+      }
+    }
+
+    if (Config.BUDGET_WARNING_THRESHOLDS.some(value => value <= 0 || value >= 1)) {
+      throw new Error("错误: BUDGET_WARNING_THRESHOLDS 中的比例必须在 0-1 之间");
+    }
+
+    if (Config.CIRCUIT_BREAKER_FAILURE_THRESHOLD < 1 || Config.CIRCUIT_BREAKER_TIMEOUT <= 0) {
+      throw new Error("错误: CIRCUIT_BREAKER_FAILURE_THRESHOLD 至少为 1，CIRCUIT_BREAKER_TIMEOUT 必须大于 0");
+    }
+
+    if (Config.RATE_LIMIT_QPS <= 0 || Config.RATE_LIMIT_BURST < 1) {
+      throw new Error("错误: RATE_LIMIT_QPS 必须大于 0，RATE_LIMIT_BURST 至少为 1");
+    }
+
+    if (Config.SIMULATOR_FAILURE_RATE < 0 || Config.SIMULATOR_FAILURE_RATE > 1) {
+      throw new Error("错误: SIMULATOR_FAILURE_RATE 必须在 0-1 之间");
+    }
+
     // 确保图片目录存在
     if (!existsSync(Config.IMAGES_DIR)) {
       mkdirSync(Config.IMAGES_DIR, { recursive: true });
@@ -69,16 +249,27 @@ export class Config {  // API配置
   static printInfo(): void {
     console.error("=== 通义万相 MCP 服务器配置 ===");
     console.error(`测试模式: ${Config.IS_TEST_MODE ? '启用' : '禁用'}`);
+    console.error(`API Key 数量: ${Config.API_KEYS.length}`);
+    console.error(`DashScope 地址: ${Config.ENDPOINTS.map(endpoint => `${endpoint.name}(${endpoint.url})`).join(' -> ') || Config.BASE_URL}`);
+    console.error(`本地模拟器: ${Config.SIMULATOR_ENABLE ? '启用' : '禁用'}`);
+    console.error(`模型注册表: ${Config.MODEL_REGISTRY_FILE || '内置'}`);
+    console.error(`模型降级: ${Config.MODEL_FALLBACK_ENABLE ? '启用' : '禁用'}`);
     console.error(`图片存储目录: ${Config.IMAGES_DIR || '未配置'}`);
+    console.error(`图像输入允许的本地目录: ${[Config.IMAGES_DIR, ...Config.INPUT_ALLOWED_DIRS].filter(Boolean).join(', ') || '无'}`);
     console.error(`OSS功能: ${Config.OSS_ENABLE ? '启用' : '禁用'}`);
     if (Config.OSS_ENABLE) {
       console.error(`OSS区域: ${Config.OSS_REGION || '未配置'}`);
       console.error(`OSS存储桶: ${Config.OSS_BUCKET || '未配置'}`);
       console.error(`OSS端点: ${Config.OSS_ENDPOINT || '默认端点'}`);
     }
+    console.error(`本地文件服务器: ${Config.FILE_SERVER_ENABLE ? `启用，${Config.FILE_SERVER_HOST}:${Config.FILE_SERVER_PORT} -> ${Config.FILE_SERVER_PUBLIC_URL}，签名 URL 有效期 ${Config.FILE_SERVER_URL_TTL}秒` : '禁用'}`);
     console.error(`最大等待时间: ${Config.MAX_WAIT_TIME}ms`);
-    console.error(`轮询间隔: ${Config.POLL_INTERVAL}ms`);
+    console.error(`轮询间隔: ${Config.POLL_INTERVAL}ms 起，按 ${Config.POLL_BACKOFF_FACTOR} 倍退避至 ${Config.POLL_MAX_INTERVAL}ms`);
     console.error(`最大并发请求: ${Config.MAX_CONCURRENT_REQUESTS}`);
+    console.error(`任务状态并发查询: ${Config.TASK_POLL_CONCURRENCY}`);
+    console.error(`熔断器: 连续失败 ${Config.CIRCUIT_BREAKER_FAILURE_THRESHOLD} 次熔断，${Config.CIRCUIT_BREAKER_TIMEOUT}ms 后尝试恢复`);
+    console.error(`提交限流: ${Config.RATE_LIMIT_QPS} QPS，突发 ${Config.RATE_LIMIT_BURST}`);
+    console.error(`预算: 每日 ${Config.BUDGET_DAILY_IMAGES ?? '不限'} 张/${Config.BUDGET_DAILY_COST ?? '不限'} 元，每月 ${Config.BUDGET_MONTHLY_IMAGES ?? '不限'} 张/${Config.BUDGET_MONTHLY_COST ?? '不限'} 元${Config.BUDGET_MODEL_LIMITS ? '，含按模型预算' : ''}`);
     console.error(`日志级别: ${Config.LOG_LEVEL}`);
     console.error(`图片保留天数: ${Config.IMAGE_RETENTION_DAYS}天`);
     console.error("===============================");
@@ -213,7 +404,7 @@ export class DynamicConfigManager {
       },
       POLL_INTERVAL: {
         currentValue: this.getConfigValue('POLL_INTERVAL'),
-        description: '任务轮询间隔(ms)',
+        description: '任务初始轮询间隔(ms)',
         type: 'number',
         validRange: '1000-60000'
       },
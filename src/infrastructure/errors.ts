@@ -13,10 +13,11 @@ export enum CircuitBreakerState {
 /**
  * 熔断器配置
  */
-interface CircuitBreakerConfig {
+export interface CircuitBreakerConfig {
   failureThreshold: number; // 失败阈值
   timeout: number; // 熔断超时时间(ms)
   monitoringPeriod: number; // 监控周期(ms)
+  isFailure?: (error: unknown) => boolean; // 判断错误是否计入失败次数，默认全部计入
 }
 
 /**
@@ -28,7 +29,7 @@ export class CircuitBreaker {
   private nextAttemptTime = 0;
 
   constructor(
-    private name: string,
+    readonly name: string,
     private config: CircuitBreakerConfig = {
       failureThreshold: 5,
       timeout: 60000, // 1分钟
@@ -62,7 +63,9 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (!this.config.isFailure || this.config.isFailure(error)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
@@ -72,10 +75,10 @@ export class CircuitBreaker {
    */
   private onSuccess(): void {
     this.failureCount = 0;
-    this.state = CircuitBreakerState.CLOSED;
     if (this.state !== CircuitBreakerState.CLOSED) {
       Logger.info(`熔断器 ${this.name} 恢复到关闭状态`);
     }
+    this.state = CircuitBreakerState.CLOSED;
   }
   /**
    * 操作失败时调用
@@ -90,6 +93,13 @@ export class CircuitBreaker {
     }
   }
 
+  /**
+   * 是否允许请求通过（关闭、半开，或开启后已到恢复尝试时间）
+   */
+  isAvailable(): boolean {
+    return this.state !== CircuitBreakerState.OPEN || Date.now() >= this.nextAttemptTime;
+  }
+
   /**
    * 获取熔断器状态
    */
@@ -119,6 +129,15 @@ export class CircuitBreaker {
  * 通义万相服务错误类
  */
 export class TongyiError extends Error {
+  /** 限流响应中 Retry-After 指示的等待时间(ms) */
+  retryAfterMs?: number;
+  /** 结构化的错误详情，随 MCP 错误的 data 一起返回 */
+  details?: Record<string, unknown>;
+  /** 面向用户的处理建议 */
+  remediation?: string;
+  /** 出错的请求参数 */
+  parameter?: string;
+
   constructor(
     public code: string,
     message: string,
@@ -144,6 +163,9 @@ export class TongyiError extends Error {
         errorCode = ErrorCode.InternalError;
         break;
       case 'VALIDATION_ERROR':
+      case 'QUOTA_EXCEEDED':
+      case 'CONTENT_INSPECTION_FAILED':
+      case 'URL_DOWNLOAD_FAILED':
         errorCode = ErrorCode.InvalidParams;
         break;
       case 'NETWORK_ERROR':
@@ -154,10 +176,179 @@ export class TongyiError extends Error {
         errorCode = ErrorCode.InternalError;
     }
     
-    return new McpError(errorCode, this.message);
+    const hasData = this.details || this.remediation || this.parameter;
+    return new McpError(
+      errorCode,
+      this.message,
+      hasData
+        ? {
+            code: this.code,
+            retryable: this.retryable,
+            ...(this.remediation && { remediation: this.remediation }),
+            ...(this.parameter && { parameter: this.parameter }),
+            ...this.details
+          }
+        : undefined
+    );
+  }
+}
+
+/**
+ * DashScope 业务错误：保留原始错误码，并附带处理建议和出错的参数
+ */
+export class DashScopeApiError extends TongyiError {
+  constructor(
+    code: string,
+    message: string,
+    /** DashScope 返回的原始错误码，如 DataInspectionFailed */
+    public readonly dashscopeCode: string,
+    remediation: string,
+    options: { parameter?: string; retryable?: boolean; statusCode?: number; originalError?: any } = {}
+  ) {
+    super(code, message, options.statusCode, options.originalError, options.retryable ?? false);
+    this.name = 'DashScopeApiError';
+    this.remediation = remediation;
+    this.parameter = options.parameter;
+    this.details = {
+      dashscope_code: dashscopeCode,
+      ...(options.parameter && { parameter: options.parameter })
+    };
+  }
+}
+
+/**
+ * 输入或输出内容未通过内容安全审核（DataInspectionFailed 等），修改内容前重试不会成功
+ */
+export class ContentInspectionError extends DashScopeApiError {
+  constructor(message: string, dashscopeCode: string, parameter?: string, originalError?: any) {
+    super(
+      'CONTENT_INSPECTION_FAILED',
+      `内容安全审核未通过: ${message}`,
+      dashscopeCode,
+      parameter
+        ? `请修改 ${parameter} 中可能涉及敏感、违规或侵权的内容后重试`
+        : '请修改提示词或输入图片中可能涉及敏感、违规或侵权的内容后重试',
+      { parameter, originalError }
+    );
+    this.name = 'ContentInspectionError';
+  }
+}
+
+/**
+ * 请求参数不合法
+ */
+export class InvalidParameterError extends DashScopeApiError {
+  constructor(message: string, dashscopeCode: string, parameter?: string, originalError?: any) {
+    super(
+      'VALIDATION_ERROR',
+      `参数验证失败: ${message}`,
+      dashscopeCode,
+      parameter
+        ? `请检查参数 ${parameter} 的取值，可通过 get_supported_models 查看各模型支持的参数和范围`
+        : '请检查请求参数，可通过 get_supported_models 查看各模型支持的参数和范围',
+      { parameter, originalError }
+    );
+    this.name = 'InvalidParameterError';
   }
 }
 
+/**
+ * 请求被限流（可重试）或调用额度已用尽（不可重试）
+ */
+export class ThrottlingError extends DashScopeApiError {
+  constructor(message: string, dashscopeCode: string, quotaExhausted: boolean, originalError?: any) {
+    super(
+      quotaExhausted ? 'QUOTA_EXHAUSTED' : 'RATE_LIMIT',
+      quotaExhausted ? `调用额度已用尽: ${message}` : `请求限流: ${message}`,
+      dashscopeCode,
+      quotaExhausted
+        ? '该模型的免费额度或调用额度已用尽，请在百炼控制台开通付费或更换模型/API Key'
+        : '请求过于频繁，请降低提交频率或稍后重试，也可以配置多个 API Key 分摊请求',
+      { retryable: !quotaExhausted, originalError }
+    );
+    this.name = 'ThrottlingError';
+  }
+}
+
+/**
+ * 账户欠费
+ */
+export class ArrearageError extends DashScopeApiError {
+  constructor(message: string, dashscopeCode: string, originalError?: any) {
+    super(
+      'ARREARAGE',
+      `账户欠费: ${message}`,
+      dashscopeCode,
+      '阿里云账户已欠费，请充值后重试',
+      { originalError }
+    );
+    this.name = 'ArrearageError';
+  }
+}
+
+/**
+ * API Key 无效或无权访问
+ */
+export class InvalidApiKeyError extends DashScopeApiError {
+  constructor(message: string, dashscopeCode: string, statusCode?: number, originalError?: any) {
+    super(
+      'AUTH_ERROR',
+      `API认证失败: ${message}`,
+      dashscopeCode,
+      '请检查 DASHSCOPE_API_KEY 是否正确、未过期，且所属工作空间已开通该模型',
+      { statusCode, originalError }
+    );
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+/**
+ * DashScope 无法下载请求中的图片 URL
+ */
+export class UrlDownloadError extends DashScopeApiError {
+  constructor(message: string, dashscopeCode: string, parameter?: string, originalError?: any) {
+    super(
+      'URL_DOWNLOAD_FAILED',
+      `图片下载失败: ${message}`,
+      dashscopeCode,
+      `请确认${parameter ? ` ${parameter} ` : '图片 URL '}可从公网直接访问（HTTP/HTTPS 或 OSS 地址，未过期、无需鉴权），` +
+      '本地图片可先通过 upload_image_to_oss 上传',
+      { parameter, originalError }
+    );
+    this.name = 'UrlDownloadError';
+  }
+}
+
+/**
+ * 错误信息中可能提到的请求参数，按匹配优先级排列
+ */
+const KNOWN_PARAMETERS = [
+  'negative_prompt', 'prompt', 'base_image_url', 'mask_image_url', 'function', 'size', 'seed',
+  'strength', 'top_scale', 'bottom_scale', 'left_scale', 'right_scale', 'upscale_factor',
+  'is_sketch', 'prompt_extend', 'watermark', 'model', 'n'
+];
+
+/**
+ * 从 DashScope 错误信息中找出出错的参数，如 "Field required: input.prompt"、"The size is not match"
+ */
+function extractParameter(message: string): string | undefined {
+  const qualified = message.match(/\b(?:input|parameters)\.([a-z_]+)/i);
+  if (qualified) {
+    return qualified[1];
+  }
+  return KNOWN_PARAMETERS.find(parameter => new RegExp(`\\b${parameter}\\b`, 'i').test(message));
+}
+
+/**
+ * 下载失败涉及的图片参数
+ */
+function extractUrlParameter(message: string): string | undefined {
+  if (/mask/i.test(message)) {
+    return 'mask_image_url';
+  }
+  return /base|image/i.test(message) ? 'base_image_url' : undefined;
+}
+
 /**
  * 错误处理工具类
  */
@@ -171,19 +362,9 @@ export class ErrorHandler {
     
     // 根据状态码分类处理
     if (status === 401 || status === 403) {
-      throw new TongyiError(
-        'AUTH_ERROR', 
-        'API密钥无效或已过期，请检查 DASHSCOPE_API_KEY 环境变量', 
-        status
-      );
+      throw new InvalidApiKeyError('API密钥无效或已过期', String(status), status);
     } else if (status === 429) {
-      throw new TongyiError(
-        'RATE_LIMIT', 
-        '请求频率超限，请稍后重试', 
-        status, 
-        null, 
-        true // 可重试
-      );
+      throw new ThrottlingError('请求频率超限，请稍后重试', String(status), false); // 可重试
     } else if (status === 400) {
       throw new TongyiError(
         'VALIDATION_ERROR', 
@@ -220,25 +401,42 @@ export class ErrorHandler {
    * 处理通义万相 API 业务错误
    */
   static handleTongyiApiError(result: any, context: string): never {
+    throw this.classifyTongyiApiError(result, context);
+  }
+
+  /**
+   * 按 DashScope 错误码将业务错误（包括失败任务 output 中的 code/message）归类为对应的错误类型
+   */
+  static classifyTongyiApiError(result: { code?: string; message?: string }, context: string): TongyiError {
     const code = result.code || 'UNKNOWN';
     const message = result.message || '未知错误';
     
-    // 根据通义万相的错误码进行分类
+    // 根据通义万相的错误码进行分类，下载失败和内容审核的错误码可能带 InvalidParameter 前缀，需优先判断
     if (code.includes('InvalidApiKey') || code.includes('Forbidden')) {
-      throw new TongyiError('AUTH_ERROR', `API认证失败: ${message}`, undefined, result);
+      return new InvalidApiKeyError(message, code, undefined, result);
+    } else if (code.includes('Arrearage')) {
+      return new ArrearageError(message, code, result);
+    } else if (code.includes('AllocationQuota') || code.includes('FreeTierOnly')) {
+      return new ThrottlingError(message, code, true, result);
     } else if (code.includes('Throttling') || code.includes('FlowControl')) {
-      throw new TongyiError('RATE_LIMIT', `请求限流: ${message}`, undefined, result, true);
-    } else if (code.includes('InvalidParameter') || code.includes('ValidationFailed')) {
-      throw new TongyiError('VALIDATION_ERROR', `参数验证失败: ${message}`, undefined, result);
+      return new ThrottlingError(message, code, false, result);
+    } else if (code.includes('DataInspection') || code.includes('IPInfringement')) {
+      return new ContentInspectionError(message, code, extractParameter(message), result);
+    } else if (code.includes('DownloadFailed') || code.includes('InvalidURL') ||
+               (code.includes('InvalidParameter') && /download|url/i.test(message))) {
+      return new UrlDownloadError(message, code, extractUrlParameter(message), result);
+    } else if (code.includes('InvalidParameter') || code.includes('ValidationFailed') || code.includes('InvalidFile')) {
+      return new InvalidParameterError(message, code, extractParameter(message), result);
     } else if (code.includes('InternalError') || code.includes('ServiceUnavailable')) {
-      throw new TongyiError('SERVER_ERROR', `服务内部错误: ${message}`, undefined, result, true);
+      return new TongyiError('SERVER_ERROR', `服务内部错误: ${message}`, undefined, result, true);
     }
     
-    throw new TongyiError('API_ERROR', `${context}: ${code} - ${message}`, undefined, result);
+    return new TongyiError('API_ERROR', `${context}: ${code} - ${message}`, undefined, result);
   }
 
   /**
    * 包装异步操作，提供统一的错误处理
+   * 只重试标记为可重试的错误（限流、网络、超时、服务端错误），参数、审核、鉴权、欠费等错误立即抛出
    */
   static async wrapAsync<T>(
     operation: () => Promise<T>, 
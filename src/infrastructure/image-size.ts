@@ -0,0 +1,82 @@
+/**
+ * 图片格式和尺寸
+ */
+export interface ImageSize {
+  width: number;
+  height: number;
+  format: 'png' | 'jpeg' | 'webp' | 'bmp' | 'gif';
+}
+
+/**
+ * 从文件头读取图片的格式和尺寸，不解码像素；无法识别时返回 undefined
+ * 支持 PNG、JPEG、WEBP、BMP 和 GIF
+ */
+export function readImageSize(data: Buffer): ImageSize | undefined {
+  if (data.length < 24) {
+    return undefined;
+  }
+
+  // PNG：签名后的第一个块为 IHDR
+  if (data.readUInt32BE(0) === 0x89504e47 && data.toString('ascii', 12, 16) === 'IHDR') {
+    return { format: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // GIF：逻辑屏幕宽高
+  if (data.toString('ascii', 0, 3) === 'GIF') {
+    return { format: 'gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  // BMP：DIB 头中的宽高，高度为负表示自上而下存储
+  if (data.toString('ascii', 0, 2) === 'BM' && data.length >= 26) {
+    return { format: 'bmp', width: Math.abs(data.readInt32LE(18)), height: Math.abs(data.readInt32LE(22)) };
+  }
+
+  if (data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    return readWebpSize(data);
+  }
+
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return readJpegSize(data);
+  }
+
+  return undefined;
+}
+
+function readWebpSize(data: Buffer): ImageSize | undefined {
+  const chunk = data.toString('ascii', 12, 16);
+  if (chunk === 'VP8 ' && data.length >= 30) {
+    return { format: 'webp', width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && data.length >= 25) {
+    const bits = data.readUInt32LE(21);
+    return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X' && data.length >= 30) {
+    return { format: 'webp', width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  return undefined;
+}
+
+/**
+ * 按段扫描 JPEG，读取 SOF 段中的宽高
+ */
+function readJpegSize(data: Buffer): ImageSize | undefined {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = data[offset + 1];
+    // 填充字节
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // SOF0-SOF15，排除 DHT(C4)、JPG(C8)、DAC(CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { format: 'jpeg', height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
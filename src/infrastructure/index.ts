@@ -3,13 +3,21 @@
  * 提供配置、日志、错误处理、缓存和并发控制等基础功能
  */
 
-export { Config, DynamicConfigManager } from './config.js';
+export { Config, DynamicConfigManager, EndpointConfig } from './config.js';
 export { Logger, LogLevel } from './logger.js';
 export { 
   TongyiError, 
   ErrorHandler, 
   CircuitBreaker, 
-  CircuitBreakerState 
+  CircuitBreakerState,
+  CircuitBreakerConfig,
+  DashScopeApiError,
+  ContentInspectionError,
+  InvalidParameterError,
+  ThrottlingError,
+  ArrearageError,
+  InvalidApiKeyError,
+  UrlDownloadError
 } from './errors.js';
 export { 
   CacheManager, 
@@ -25,3 +33,13 @@ export {
   RequestPriority,
   withPerformanceMonitoring 
 } from './concurrency.js';
+export { encodePng, decodePng, DecodedPng, PngColorType } from './png.js';
+export { readImageSize, ImageSize } from './image-size.js';
+export { anySignal, abortable, throwIfAborted, createCancelledError } from './abort.js';
+export { ProgressReporter } from './progress.js';
+export { 
+  RateLimiter, 
+  RateLimitOptions, 
+  RateLimitLaneStatus, 
+  parseRetryAfter 
+} from './rate-limiter.js';
@@ -0,0 +1,292 @@
+import { deflateSync, inflateSync } from 'zlib';
+
+/**
+ * PNG 颜色类型
+ */
+export enum PngColorType {
+  GRAYSCALE = 0,
+  RGB = 2,
+  RGBA = 6
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * 每像素通道数
+ */
+const CHANNELS: Record<PngColorType, number> = {
+  [PngColorType.GRAYSCALE]: 1,
+  [PngColorType.RGB]: 3,
+  [PngColorType.RGBA]: 4
+};
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * 计算 PNG 块使用的 CRC32
+ */
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 构建一个 PNG 数据块
+ */
+function createChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * 将原始像素编码为 PNG（8 位深度，无交错）
+ * @param width 图像宽度
+ * @param height 图像高度
+ * @param pixels 按行排列的像素数据，长度为 width * height * 通道数
+ * @param colorType 颜色类型，默认 RGB
+ */
+export function encodePng(
+  width: number,
+  height: number,
+  pixels: Uint8Array,
+  colorType: PngColorType = PngColorType.RGB
+): Buffer {
+  const channels = CHANNELS[colorType];
+  const rowLength = width * channels;
+
+  if (pixels.length !== rowLength * height) {
+    throw new Error(`像素数据长度不匹配: 期望 ${rowLength * height}，实际 ${pixels.length}`);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // 位深度
+  header[9] = colorType;
+  header[10] = 0; // 压缩方法
+  header[11] = 0; // 过滤方法
+  header[12] = 0; // 无交错
+
+  // 每行前加一个过滤类型字节（0 = None）
+  const raw = Buffer.alloc((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const offset = y * (rowLength + 1);
+    raw[offset] = 0;
+    raw.set(pixels.subarray(y * rowLength, (y + 1) * rowLength), offset + 1);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk('IHDR', header),
+    createChunk('IDAT', deflateSync(raw)),
+    createChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * 解码后的 PNG 图像，像素统一为 RGBA（每通道 8 位）
+ */
+export interface DecodedPng {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+/**
+ * 解码时支持的颜色类型对应的通道数（3 为调色板）
+ */
+const DECODE_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * 解码 PNG 为 RGBA 像素（支持所有颜色类型和位深度，不支持交错）
+ * @param data PNG 文件内容
+ */
+export function decodePng(data: Buffer): DecodedPng {
+  if (data.length < PNG_SIGNATURE.length || !data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    throw new Error('不是有效的 PNG 文件');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('ascii', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (chunk.length !== length) {
+      throw new Error(`PNG 数据块 ${type} 不完整`);
+    }
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) {
+        throw new Error('不支持交错存储的 PNG');
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = DECODE_CHANNELS[colorType];
+  if (!channels || width === 0 || height === 0 || idat.length === 0) {
+    throw new Error('PNG 缺少图像数据或颜色类型无效');
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('调色板 PNG 缺少 PLTE 数据块');
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const rowLength = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = inflateSync(Buffer.concat(idat));
+  if (raw.length < (rowLength + 1) * height) {
+    throw new Error('PNG 图像数据长度不足');
+  }
+
+  const rows = unfilter(raw, rowLength, height, bytesPerPixel);
+  const pixels = new Uint8Array(width * height * 4);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+
+  // 读取第 index 个样本，16 位只取高字节，低位深度缩放到 0-255（调色板返回索引）
+  const sample = (row: Uint8Array, index: number): number => {
+    if (bitDepth === 16) {
+      return row[index * 2];
+    }
+    if (bitDepth === 8) {
+      return row[index];
+    }
+    const bit = index * bitDepth;
+    const value = (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample);
+  };
+
+  for (let y = 0; y < height; y++) {
+    const row = rows.subarray(y * rowLength, (y + 1) * rowLength);
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      const base = x * channels;
+      let r: number, g: number, b: number, a = 255;
+
+      switch (colorType) {
+        case 0:
+          r = g = b = sample(row, base);
+          break;
+        case 2:
+          r = sample(row, base);
+          g = sample(row, base + 1);
+          b = sample(row, base + 2);
+          break;
+        case 3: {
+          const index = sample(row, base);
+          r = palette![index * 3] ?? 0;
+          g = palette![index * 3 + 1] ?? 0;
+          b = palette![index * 3 + 2] ?? 0;
+          a = transparency?.[index] ?? 255;
+          break;
+        }
+        case 4:
+          r = g = b = sample(row, base);
+          a = sample(row, base + 1);
+          break;
+        default:
+          r = sample(row, base);
+          g = sample(row, base + 1);
+          b = sample(row, base + 2);
+          a = sample(row, base + 3);
+      }
+
+      pixels[target] = r;
+      pixels[target + 1] = g;
+      pixels[target + 2] = b;
+      pixels[target + 3] = a;
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+/**
+ * 还原 PNG 的逐行过滤，返回去掉过滤类型字节后的行数据
+ */
+function unfilter(raw: Buffer, rowLength: number, height: number, bytesPerPixel: number): Uint8Array {
+  const rows = new Uint8Array(rowLength * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (rowLength + 1)];
+    const source = y * (rowLength + 1) + 1;
+    const target = y * rowLength;
+    const previous = target - rowLength;
+
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? rows[target + i - bytesPerPixel] : 0;
+      const up = y > 0 ? rows[previous + i] : 0;
+      const upLeft = y > 0 && i >= bytesPerPixel ? rows[previous + i - bytesPerPixel] : 0;
+      let predictor: number;
+
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          break;
+        }
+        default:
+          throw new Error(`PNG 过滤类型无效: ${filter}`);
+      }
+
+      rows[target + i] = (raw[source + i] + predictor) & 0xff;
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,37 @@
+import type { ProgressToken, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import { Logger } from './logger.js';
+
+/**
+ * MCP 进度通知发送器
+ * 请求携带 progressToken 时，按步骤发送 notifications/progress；否则所有调用均为空操作
+ */
+export class ProgressReporter {
+  private progress = 0;
+
+  constructor(
+    private readonly progressToken: ProgressToken | undefined,
+    private readonly sendNotification: (notification: ServerNotification) => Promise<void>
+  ) {}
+
+  /**
+   * 报告一个新的进度步骤（进度值单调递增）
+   */
+  report(message: string): void {
+    if (this.progressToken === undefined) {
+      return;
+    }
+
+    this.progress += 1;
+    this.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken: this.progressToken,
+        progress: this.progress,
+        message
+      }
+    }).catch(error => {
+      // 进度通知失败不影响工具调用本身
+      Logger.debug(`进度通知发送失败: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+}
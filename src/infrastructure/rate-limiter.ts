@@ -0,0 +1,211 @@
+import { Config } from './config.js';
+import { Logger } from './logger.js';
+import { TongyiError } from './errors.js';
+
+/**
+ * 限流通道配置
+ */
+export interface RateLimitOptions {
+  /** 每秒补充的令牌数（即允许的提交 QPS） */
+  qps: number;
+  /** 令牌桶容量（允许的突发请求数） */
+  burst: number;
+  /** 未携带 Retry-After 时指数退避的上限(ms) */
+  maxBackoffMs: number;
+}
+
+/**
+ * 限流通道状态
+ */
+export interface RateLimitLaneStatus {
+  lane: string;
+  qps: number;
+  /** 被限流后降低的实际提交速率，成功后逐步恢复到 qps */
+  currentQps: number;
+  burst: number;
+  tokens: number;
+  waiting: number;
+  blockedUntil?: string;
+  consecutiveThrottles: number;
+  totalThrottles: number;
+  lastBackoffMs?: number;
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期），返回毫秒
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * 单个限流通道：令牌桶 + 整体退避
+ * 等待者按到达顺序依次获取令牌；被限流时速率减半，成功后线性恢复
+ */
+class RateLimitLane {
+  private tokens: number;
+  private rate: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+  private consecutiveThrottles = 0;
+  private totalThrottles = 0;
+  private lastBackoffMs?: number;
+  private waiting = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly name: string,
+    private readonly options: RateLimitOptions
+  ) {
+    this.tokens = options.burst;
+    this.rate = options.qps;
+  }
+
+  /**
+   * 获取一个令牌，通道退避期间一直等待
+   */
+  async acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn.catch(() => undefined);
+
+    this.waiting++;
+    try {
+      await turn;
+    } finally {
+      this.waiting--;
+    }
+  }
+
+  /**
+   * 请求被限流：整个通道暂停，优先使用 Retry-After，否则指数退避
+   */
+  backoff(retryAfterMs?: number): number {
+    this.consecutiveThrottles++;
+    this.totalThrottles++;
+
+    const backoffMs = retryAfterMs ?? Math.min(
+      1000 * Math.pow(2, this.consecutiveThrottles - 1),
+      this.options.maxBackoffMs
+    );
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + backoffMs);
+    this.tokens = 0;
+    this.rate = Math.max(this.rate / 2, this.options.qps / 8);
+    this.lastBackoffMs = backoffMs;
+    return backoffMs;
+  }
+
+  /**
+   * 请求成功，重置连续限流计数并逐步恢复速率
+   */
+  recordSuccess(): void {
+    this.consecutiveThrottles = 0;
+    this.rate = Math.min(this.options.qps, this.rate + this.options.qps / 10);
+  }
+
+  getStatus(): RateLimitLaneStatus {
+    const now = Date.now();
+    this.refill(now);
+    return {
+      lane: this.name,
+      qps: this.options.qps,
+      currentQps: Math.round(this.rate * 100) / 100,
+      burst: this.options.burst,
+      tokens: Math.round(this.tokens * 100) / 100,
+      waiting: this.waiting,
+      ...(this.blockedUntil > now && { blockedUntil: new Date(this.blockedUntil).toISOString() }),
+      consecutiveThrottles: this.consecutiveThrottles,
+      totalThrottles: this.totalThrottles,
+      ...(this.lastBackoffMs !== undefined && { lastBackoffMs: this.lastBackoffMs })
+    };
+  }
+
+  private async waitForToken(): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      this.refill(now);
+
+      const tokenWait = this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.rate) * 1000;
+      const waitMs = Math.max(this.blockedUntil - now, tokenWait);
+      if (waitMs <= 0) {
+        this.tokens -= 1;
+        return;
+      }
+
+      // 等待期间退避时间可能被延长，醒来后重新计算
+      await new Promise(resolve => setTimeout(resolve, Math.ceil(waitMs)));
+    }
+  }
+
+  private refill(now: number): void {
+    // 退避期间不补充令牌
+    const from = Math.max(this.lastRefill, this.blockedUntil);
+    if (now > from) {
+      this.tokens = Math.min(this.options.burst, this.tokens + ((now - from) / 1000) * this.rate);
+    }
+    this.lastRefill = Math.max(now, this.lastRefill);
+  }
+}
+
+/**
+ * 按通道（模型 + 接口）限制请求提交速率
+ * 请求被限流时读取 Retry-After 并让整个通道退避，之后的请求和重试都会等待退避结束
+ */
+export class RateLimiter {
+  private readonly lanes: Map<string, RateLimitLane> = new Map();
+
+  constructor(
+    private readonly defaults: RateLimitOptions = {
+      qps: Config.RATE_LIMIT_QPS,
+      burst: Config.RATE_LIMIT_BURST,
+      maxBackoffMs: Config.RATE_LIMIT_MAX_BACKOFF
+    }
+  ) {}
+
+  /**
+   * 在指定通道中执行操作；limits 仅在通道首次创建时生效
+   */
+  async schedule<T>(
+    lane: string,
+    operation: () => Promise<T>,
+    limits: Partial<RateLimitOptions> = {}
+  ): Promise<T> {
+    const rateLane = this.getLane(lane, limits);
+    await rateLane.acquire();
+
+    try {
+      const result = await operation();
+      rateLane.recordSuccess();
+      return result;
+    } catch (error) {
+      if (error instanceof TongyiError && error.code === 'RATE_LIMIT') {
+        const backoffMs = rateLane.backoff(error.retryAfterMs);
+        Logger.warn(`限流通道 ${lane} 被限流，暂停 ${backoffMs}ms`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 获取所有通道状态
+   */
+  getStatus(): RateLimitLaneStatus[] {
+    return Array.from(this.lanes.values()).map(lane => lane.getStatus());
+  }
+
+  private getLane(name: string, limits: Partial<RateLimitOptions>): RateLimitLane {
+    let lane = this.lanes.get(name);
+    if (!lane) {
+      lane = new RateLimitLane(name, { ...this.defaults, ...limits });
+      this.lanes.set(name, lane);
+    }
+    return lane;
+  }
+}
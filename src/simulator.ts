@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+
+/**
+ * 独立运行 DashScope 模拟器
+ * 监听 DASHSCOPE_BASE_URL（默认 http://127.0.0.1:18080），供其他进程或 CI 使用
+ */
+
+import { Logger } from './infrastructure/index.js';
+import { DashScopeSimulator } from './core/index.js';
+
+const simulator = new DashScopeSimulator();
+
+async function shutdown() {
+  await simulator.stop();
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+simulator.start().catch(error => {
+  Logger.error('DashScope 模拟器启动失败', error);
+  process.exit(1);
+});